@@ -3,22 +3,47 @@ import { Command } from 'commander';
 import fs from 'node:fs';
 import { v4 as uuidv4 } from 'uuid';
 import * as core from '@akashabot/openclaw-memory-offline-core';
+import type {
+  QueryMode,
+  SearchWarning,
+  FactExtractionOpts,
+  FactPatternSample,
+  FactPatternEvaluation,
+  MemConfig,
+} from '@akashabot/openclaw-memory-offline-core';
 
 const {
   addItem,
+  addItemWithEmbedding,
+  updateItem,
+  deleteItem,
   hybridSearch,
   hybridSearchFiltered,
+  semanticSearch,
   initSchema,
+  FTS_TOKENIZERS,
+  getFtsTokenizer,
   openDb,
   runMigrations,
   searchItems,
+  buildFtsQuery,
+  validateFtsQuery,
   getMemoriesByEntity,
   getMemoriesBySession,
   getMemoriesByProcess,
   listEntities,
   listSessions,
+  // Short-Term Memory
+  stm_insert,
+  stm_recall,
+  stm_maintain,
+  stm_consolidate,
+  getMostAccessed,
   // Phase 2: Facts
-  insertFact,
+  upsertFact,
+  dedupeFacts,
+  getPredicateCardinality,
+  setPredicateCardinality,
   getFactsBySubject,
   getFactsByPredicate,
   searchFacts,
@@ -26,7 +51,15 @@ const {
   listSubjects,
   listPredicates,
   deleteFact,
-  extractFactsSimple,
+  extractFactsWithPatterns,
+  parseFactPatternPack,
+  evaluateFactPatterns,
+  DEFAULT_FACT_PATTERN_PACKS,
+  extractAndStoreFacts,
+  getItem,
+  getFactsBySourceItem,
+  getFactProvenance,
+  backfillFacts,
   // Phase 3: Knowledge Graph
   getEntityGraph,
   getRelatedEntities,
@@ -36,6 +69,18 @@ const {
   searchEntities,
   // Phase 3: Embedding Optimizations
   getEmbeddingStats,
+  embeddingModelName,
+  listEmbeddingProviders,
+  deleteEmbeddingsByModel,
+  compactEmbeddings,
+  chunkItem,
+  chunkItems,
+  searchChunks,
+  buildAnnIndex,
+  dropAnnIndex,
+  listAnnIndexes,
+  benchmarkAnnSearch,
+  embedMissing,
   quantizeF32ToF16,
   dequantizeF16ToF32,
   cosineSimilarity,
@@ -55,15 +100,100 @@ function withDb<T>(fn: (dbPath: string) => T): T {
   return fn(opts.db);
 }
 
+const EMBEDDING_FORMATS: string[] = ['f32', 'f16', 'int8'];
+
+/**
+ * Check --provider against the registered embedding providers; prints the error and returns
+ * false when unknown.
+ */
+function checkProvider(name: unknown): boolean {
+  if (name === undefined || listEmbeddingProviders().includes(String(name))) return true;
+  process.exitCode = 2;
+  console.log(JSON.stringify({
+    ok: false,
+    error: `Unknown embedding provider: ${name} (expected one of: ${listEmbeddingProviders().join(', ')})`,
+  }));
+  return false;
+}
+
+/**
+ * The provider and model a search embedded its query with (plus the base URL for Ollama), for JSON output.
+ */
+function embeddingOutput(cfg: MemConfig): { provider: string; embeddingModel: string; ollamaBaseUrl?: string } {
+  const provider = cfg.provider ?? 'ollama';
+  return {
+    provider,
+    embeddingModel: embeddingModelName(cfg),
+    ...(provider === 'ollama' ? { ollamaBaseUrl: cfg.ollamaBaseUrl ?? 'http://127.0.0.1:11434' } : {}),
+  };
+}
+
+/**
+ * Parse a duration like "90s", "30m", "2h" or "7d". A bare number is milliseconds.
+ */
+function parseDurationMs(value: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/i.exec(value.trim());
+  if (!m) return null;
+  const n = Number(m[1]);
+  const unit = (m[2] ?? 'ms').toLowerCase();
+  const factor: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+  return Math.round(n * factor[unit]!);
+}
+
+/**
+ * Parse a point in time: epoch ms, an ISO date ("2026-02-10"), or a relative
+ * duration meaning "that long ago" ("7d", "12h").
+ */
+function parseTimeMs(value: string, now = Date.now()): number | null {
+  const v = value.trim();
+  if (/^\d+$/.test(v)) return Number(v);
+  if (/^\d+(?:\.\d+)?\s*(ms|s|m|h|d)$/i.test(v)) return now - parseDurationMs(v)!;
+  const t = Date.parse(v);
+  return Number.isNaN(t) ? null : t;
+}
+
+/**
+ * Parse a numeric option. Prints `{ ok: false }` (exit code 2) and returns null when
+ * the value is not a finite number, so a typo never turns into NaN downstream.
+ */
+function parseNumberOption(flag: string, raw: unknown): number | null {
+  const n = String(raw).trim() === '' ? NaN : Number(raw);
+  if (Number.isFinite(n)) return n;
+  process.exitCode = 2;
+  console.log(JSON.stringify({ ok: false, error: `Invalid value for ${flag}: ${raw}` }));
+  return null;
+}
+
+/**
+ * Parse --snippet-tokens: a whole number of tokens in 1..64 (FTS5's snippet() limit), or undefined when not given.
+ */
+function parseSnippetTokens(raw: unknown): number | undefined | null {
+  if (raw === undefined) return undefined;
+  const n = parseNumberOption('--snippet-tokens', raw);
+  if (n === null) return null;
+  if (!Number.isInteger(n) || n < 1 || n > 64) {
+    process.exitCode = 2;
+    console.log(JSON.stringify({ ok: false, error: `Invalid value for --snippet-tokens: ${raw} (expected 1..64)` }));
+    return null;
+  }
+  return n;
+}
+
 program
   .command('init')
   .description('Initialize the SQLite database schema')
-  .action(() => {
+  .option('--tokenizer <name>', `FTS tokenizer: ${Object.keys(FTS_TOKENIZERS).join(', ')} (an existing index is rebuilt if it differs)`)
+  .action((cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
-      initSchema(db);
+      if (cmdOpts.tokenizer !== undefined && !Object.keys(FTS_TOKENIZERS).includes(cmdOpts.tokenizer)) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: `Invalid --tokenizer (expected ${Object.keys(FTS_TOKENIZERS).join(', ')})` }));
+        return;
+      }
+      initSchema(db, { tokenizer: cmdOpts.tokenizer });
       runMigrations(db);
-      console.log(JSON.stringify({ ok: true, db: dbPath }));
+      console.log(JSON.stringify({ ok: true, db: dbPath, tokenizer: getFtsTokenizer(db) }));
     });
   });
 
@@ -82,12 +212,30 @@ function registerAddCommand(name: string) {
     .option('--entity-id <entityId>', 'Who said/wrote this (e.g. "loic", "system")')
     .option('--process-id <processId>', 'Which agent/process captured this (e.g. "akasha")')
     .option('--session-id <sessionId>', 'Session/conversation grouping')
-    .action((textArg: string | undefined, cmdOpts) => {
-      withDb((dbPath) => {
+    // Embed on write
+    .option('--embed', 'Compute and store the embedding now (falls back to lexical-only if unavailable)', false)
+    .option('--embedding-storage <format>', 'Vector storage format: "f32" (default), "f16" or "int8"')
+    .option('--extract-facts', 'Also extract facts from the text and store them with this item as source', false)
+    .option('--chunk', 'Also split the text into sentence-aware chunks (for long documents)', false)
+    .option('--chunk-size <n>', 'Max characters per chunk (default 1000)')
+    .option('--chunk-overlap <n>', 'Characters shared by consecutive chunks (default 150)')
+    .option('--provider <name>', 'Embedding provider: "ollama" (default), "openai", or "local" (offline, no service needed)')
+    .option('--ollama-base-url <url>', 'Ollama baseUrl (OpenAI-compatible). e.g. http://127.0.0.1:11434')
+    .option('--embedding-model <id>', 'Embedding model id (default bge-m3)')
+    .option('--ollama-timeout-ms <n>', 'Ollama timeout in ms (default 3000)')
+    .action(async (textArg: string | undefined, cmdOpts) => {
+      await withDb(async (dbPath) => {
         const db = openDb(dbPath);
         initSchema(db);
         runMigrations(db);
 
+        if (cmdOpts.embeddingStorage && !EMBEDDING_FORMATS.includes(cmdOpts.embeddingStorage)) {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Invalid --embedding-storage (expected "f32", "f16" or "int8")' }));
+          return;
+        }
+        if (!checkProvider(cmdOpts.provider)) return;
+
         const text = (textArg ?? fs.readFileSync(0, 'utf8')).trim();
         if (!text) {
           process.exitCode = 2;
@@ -113,7 +261,7 @@ function registerAddCommand(name: string) {
         }
 
         const id = String(cmdOpts.id ?? uuidv4());
-        const item = addItem(db, {
+        const input = {
           id,
           title: cmdOpts.title ? String(cmdOpts.title) : null,
           text,
@@ -125,9 +273,40 @@ function registerAddCommand(name: string) {
           entity_id: cmdOpts.entityId ? String(cmdOpts.entityId) : null,
           process_id: cmdOpts.processId ? String(cmdOpts.processId) : null,
           session_id: cmdOpts.sessionId ? String(cmdOpts.sessionId) : null,
-        });
+        };
+
+        const chunkOpts: { chunkSize?: number; overlap?: number } = {};
+        for (const [key, opt, flag] of [['chunkSize', 'chunkSize', '--chunk-size'], ['overlap', 'chunkOverlap', '--chunk-overlap']] as const) {
+          if (cmdOpts[opt] === undefined) continue;
+          const parsed = parseNumberOption(flag, cmdOpts[opt]);
+          if (parsed === null) return;
+          chunkOpts[key] = parsed;
+        }
+
+        if (cmdOpts.embed) {
+          const { item, embedding } = await addItemWithEmbedding(
+            db,
+            {
+              dbPath,
+              provider: cmdOpts.provider,
+              ollamaBaseUrl: cmdOpts.ollamaBaseUrl,
+              embeddingModel: cmdOpts.embeddingModel,
+              ollamaTimeoutMs: cmdOpts.ollamaTimeoutMs ? Number(cmdOpts.ollamaTimeoutMs) : undefined,
+              embeddingStorage: cmdOpts.embeddingStorage,
+            },
+            input,
+            { extractFacts: cmdOpts.extractFacts }
+          );
+          const chunks = cmdOpts.chunk ? chunkItem(db, item.id, chunkOpts).length : undefined;
+          const facts = cmdOpts.extractFacts ? getFactsBySourceItem(db, item.id) : undefined;
+          console.log(JSON.stringify({ ok: true, item, embedding, chunks, facts }));
+          return;
+        }
 
-        console.log(JSON.stringify({ ok: true, item }));
+        const item = addItem(db, input, { extractFacts: cmdOpts.extractFacts });
+        const chunks = cmdOpts.chunk ? chunkItem(db, item.id, chunkOpts).length : undefined;
+        const facts = cmdOpts.extractFacts ? getFactsBySourceItem(db, item.id) : undefined;
+        console.log(JSON.stringify({ ok: true, item, chunks, facts }));
       });
     });
 }
@@ -142,9 +321,23 @@ function registerSearchCommand(name: string) {
     .description('Search items using SQLite FTS5 (bm25), optionally reranked with Ollama embeddings')
     .argument('<query>', 'FTS query (will be minimally escaped)')
     .option('--limit <n>', 'Max results (default 10, max 200)', '10')
-    .option('--hybrid', 'Enable semantic rerank using Ollama embeddings', false)
+    .option('--hybrid', 'Enable semantic rerank using Ollama embeddings (same as --mode hybrid)', false)
+    .option('--mode <mode>', 'Search mode: "lexical" (default), "hybrid", or "semantic" (vector scan over all stored embeddings)')
     .option('--candidates <n>', 'How many lexical candidates to rerank in hybrid mode (default max(50,limit))')
     .option('--semantic-weight <w>', 'Hybrid weight for semantic score (0..1, default 0.7)', '0.7')
+    .option('--fusion <strategy>', 'Hybrid fusion: "linear" (normalized score blend) or "rrf" (reciprocal rank fusion)', 'linear')
+    .option('--rrf-k <n>', 'RRF k parameter (default 60)')
+    .option('--no-ann', 'Ignore the ANN index (exact vector scan)')
+    .option('--nprobe <n>', 'ANN lists to scan when an index exists (default 8)')
+    .option('--chunks', 'Search item chunks: best chunk per item, with its offset in the parent text', false)
+    .option('--stale-embeddings <mode>', 'Vectors with other dims/models than the query: "reembed" (default) or "skip"')
+    .option('--query-mode <mode>', 'Query syntax: "simple" (default), "phrase", "boolean" (AND/OR/NOT, (), "phrase", prefix*, title:/tags:) or "fts5" (raw)')
+    .option('--snippet', 'Add an FTS5 snippet (best-matching window, matches marked) to lexical hits', false)
+    .option('--highlight', 'Add the full text with matches marked (FTS5 highlight) to lexical hits', false)
+    .option('--snippet-tokens <n>', 'Snippet window size in tokens (1..64, default 16)')
+    .option('--mark-open <s>', 'Marker inserted before each match (default "**")')
+    .option('--mark-close <s>', 'Marker inserted after each match (default "**")')
+    .option('--provider <name>', 'Embedding provider: "ollama" (default), "openai", or "local" (offline, no service needed)')
     .option('--ollama-base-url <url>', 'Ollama baseUrl (OpenAI-compatible). e.g. http://127.0.0.1:11434')
     .option('--embedding-model <id>', 'Embedding model id (default bge-m3)')
     .option('--ollama-timeout-ms <n>', 'Ollama timeout in ms (default 3000)')
@@ -152,65 +345,197 @@ function registerSearchCommand(name: string) {
     .option('--entity-id <entityId>', 'Filter by entity (who said/wrote)')
     .option('--process-id <processId>', 'Filter by process (which agent captured)')
     .option('--session-id <sessionId>', 'Filter by session/conversation')
+    .option('--source <source>', 'Filter by source (e.g. "whatsapp")')
+    .option('--tags <tags>', 'Filter by tags; items must carry every listed tag (e.g. "a,b")')
+    // Time range & recency
+    .option('--since <when>', 'Only items created at/after this time (ISO date, epoch ms, or "7d" = 7 days ago)')
+    .option('--until <when>', 'Only items created before this time (same formats as --since)')
+    .option('--recency-half-life <duration>', 'Favor fresh memories: score decays by half every <duration> (e.g. "7d")')
+    .option('--recency-weight <w>', 'Share of the score given to recency (0..1, default 0.2)')
     .action(async (query: string, cmdOpts) => {
       await withDb(async (dbPath) => {
         const db = openDb(dbPath);
         initSchema(db);
         runMigrations(db);
 
+        if (!checkProvider(cmdOpts.provider)) return;
         const limit = Math.max(1, Math.min(200, Number(cmdOpts.limit ?? 10)));
 
+        const times: { since?: number; until?: number; recencyHalfLifeMs?: number } = {};
+        for (const [key, flag, raw, parse] of [
+          ['since', '--since', cmdOpts.since, parseTimeMs],
+          ['until', '--until', cmdOpts.until, parseTimeMs],
+          ['recencyHalfLifeMs', '--recency-half-life', cmdOpts.recencyHalfLife, parseDurationMs],
+        ] as const) {
+          if (raw === undefined) continue;
+          const parsed = parse(String(raw));
+          if (parsed === null) {
+            process.exitCode = 2;
+            console.log(JSON.stringify({ ok: false, error: `Invalid value for ${flag}: ${raw}` }));
+            return;
+          }
+          times[key] = parsed;
+        }
+        const rawRecencyWeight = cmdOpts.recencyWeight !== undefined
+          ? parseNumberOption('--recency-weight', cmdOpts.recencyWeight)
+          : undefined;
+        if (rawRecencyWeight === null) return;
+        const recencyWeight = rawRecencyWeight !== undefined ? Math.max(0, Math.min(1, rawRecencyWeight)) : undefined;
+
         // Check if any filter is specified
-        const hasFilter = cmdOpts.entityId || cmdOpts.processId || cmdOpts.sessionId;
+        const hasFilter = cmdOpts.entityId || cmdOpts.processId || cmdOpts.sessionId || cmdOpts.source || cmdOpts.tags
+          || times.since !== undefined || times.until !== undefined;
         const filter = hasFilter ? {
           entity_id: cmdOpts.entityId || undefined,
           process_id: cmdOpts.processId || undefined,
           session_id: cmdOpts.sessionId || undefined,
+          source: cmdOpts.source || undefined,
+          tags: cmdOpts.tags || undefined,
+          since: times.since,
+          until: times.until,
+        } : undefined;
+
+        const rawNprobe = cmdOpts.nprobe !== undefined ? parseNumberOption('--nprobe', cmdOpts.nprobe) : undefined;
+        if (rawNprobe === null) return;
+        const nprobe = rawNprobe !== undefined ? Math.max(1, rawNprobe) : undefined;
+        const snippetTokens = parseSnippetTokens(cmdOpts.snippetTokens);
+        if (snippetTokens === null) return;
+        const highlight = cmdOpts.snippet || cmdOpts.highlight ? {
+          snippet: Boolean(cmdOpts.snippet),
+          highlight: Boolean(cmdOpts.highlight),
+          tokens: snippetTokens,
+          open: cmdOpts.markOpen,
+          close: cmdOpts.markClose,
         } : undefined;
 
-        if (!cmdOpts.hybrid) {
-          const out = searchItems(db, query, limit);
-          console.log(JSON.stringify({ ok: true, mode: 'lexical', ...out }));
+        const queryMode = (cmdOpts.queryMode ?? 'simple') as QueryMode;
+        let ftsQuery: string;
+        try {
+          ftsQuery = buildFtsQuery(query, queryMode);
+          // Raw fts5 syntax is only checked by SQLite: fail here with a readable error, not mid-search.
+          if (queryMode === 'fts5') validateFtsQuery(db, ftsQuery);
+        } catch (e: any) {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
           return;
         }
 
-        const candidates = cmdOpts.candidates ? Math.max(limit, Number(cmdOpts.candidates)) : undefined;
-        const semanticWeight = Math.max(0, Math.min(1, Number(cmdOpts.semanticWeight ?? 0.7)));
+        const mode = cmdOpts.mode ?? (cmdOpts.hybrid ? 'hybrid' : 'lexical');
+        if (!['lexical', 'hybrid', 'semantic'].includes(mode)) {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Invalid --mode (expected "lexical", "hybrid" or "semantic")' }));
+          return;
+        }
+
+        const cfg = {
+          dbPath,
+          provider: cmdOpts.provider,
+          ollamaBaseUrl: cmdOpts.ollamaBaseUrl,
+          embeddingModel: cmdOpts.embeddingModel,
+          ollamaTimeoutMs: cmdOpts.ollamaTimeoutMs ? Number(cmdOpts.ollamaTimeoutMs) : undefined,
+        };
+
+        if (cmdOpts.chunks) {
+          const warnings: SearchWarning[] = [];
+          let results;
+          try {
+            results = await searchChunks(db, mode === 'lexical' ? null : cfg, ftsQuery, {
+              topK: limit,
+              filter,
+              semanticQuery: query,
+              onWarning: (w) => warnings.push(w),
+            });
+          } catch (e: any) {
+            process.exitCode = 2;
+            console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
+            return;
+          }
+          console.log(JSON.stringify({ ok: true, mode, chunks: true, query, filter, results, warnings: warnings.length ? warnings : undefined }));
+          return;
+        }
+
+        if (mode === 'semantic') {
+          const warnings: SearchWarning[] = [];
+          const results = await semanticSearch(db, cfg, query, {
+            topK: limit,
+            filter,
+            ann: cmdOpts.ann,
+            nprobe,
+            onWarning: (w) => warnings.push(w),
+          });
+          console.log(
+            JSON.stringify({
+              ok: true,
+              // The query embedding failed: results are the lexical fallback.
+              mode: warnings.some((w) => w.code === 'embedding_unavailable') ? 'lexical' : mode,
+              query,
+              filter,
+              results,
+              warnings: warnings.length ? warnings : undefined,
+              ...embeddingOutput(cfg),
+            })
+          );
+          return;
+        }
+
+        if (mode === 'lexical') {
+          const out = searchItems(db, query, limit, filter, {
+            recencyHalfLifeMs: times.recencyHalfLifeMs,
+            recencyWeight,
+          }, { highlight, queryMode });
+          console.log(JSON.stringify({ ok: true, mode: 'lexical', filter, ...out }));
+          return;
+        }
+
+        const rawCandidates = cmdOpts.candidates !== undefined ? parseNumberOption('--candidates', cmdOpts.candidates) : undefined;
+        if (rawCandidates === null) return;
+        const candidates = rawCandidates !== undefined ? Math.max(limit, rawCandidates) : undefined;
+        const rawSemanticWeight = parseNumberOption('--semantic-weight', cmdOpts.semanticWeight ?? 0.7);
+        if (rawSemanticWeight === null) return;
+        const semanticWeight = Math.max(0, Math.min(1, rawSemanticWeight));
+        if (cmdOpts.fusion !== 'linear' && cmdOpts.fusion !== 'rrf') {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Invalid --fusion (expected "linear" or "rrf")' }));
+          return;
+        }
+        const fusion = cmdOpts.fusion as 'linear' | 'rrf';
+        const rawRrfK = cmdOpts.rrfK !== undefined ? parseNumberOption('--rrf-k', cmdOpts.rrfK) : undefined;
+        if (rawRrfK === null) return;
+        const rrfK = rawRrfK !== undefined ? Math.max(1, rawRrfK) : undefined;
+        if (cmdOpts.staleEmbeddings !== undefined && cmdOpts.staleEmbeddings !== 'reembed' && cmdOpts.staleEmbeddings !== 'skip') {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Invalid --stale-embeddings (expected "reembed" or "skip")' }));
+          return;
+        }
+        const staleEmbeddings = cmdOpts.staleEmbeddings as 'reembed' | 'skip' | undefined;
+        const warnings: SearchWarning[] = [];
+        const onWarning = (w: SearchWarning) => warnings.push(w);
 
         // Use filtered search if filter options are specified
         const results = await (hasFilter
           ? hybridSearchFiltered(
               db,
-              {
-                dbPath,
-                ollamaBaseUrl: cmdOpts.ollamaBaseUrl,
-                embeddingModel: cmdOpts.embeddingModel,
-                ollamaTimeoutMs: cmdOpts.ollamaTimeoutMs ? Number(cmdOpts.ollamaTimeoutMs) : undefined,
-              },
-              searchItems(db, query, 1).escapedQuery,
-              { topK: limit, candidates, semanticWeight, filter }
+              cfg,
+              ftsQuery,
+              { topK: limit, candidates, semanticWeight, filter, fusion, rrfK, ann: cmdOpts.ann, nprobe, staleEmbeddings, semanticQuery: query, onWarning, highlight, recencyHalfLifeMs: times.recencyHalfLifeMs, recencyWeight }
             )
           : hybridSearch(
               db,
-              {
-                dbPath,
-                ollamaBaseUrl: cmdOpts.ollamaBaseUrl,
-                embeddingModel: cmdOpts.embeddingModel,
-                ollamaTimeoutMs: cmdOpts.ollamaTimeoutMs ? Number(cmdOpts.ollamaTimeoutMs) : undefined,
-              },
-              searchItems(db, query, 1).escapedQuery,
-              { topK: limit, candidates, semanticWeight }
+              cfg,
+              ftsQuery,
+              { topK: limit, candidates, semanticWeight, fusion, rrfK, ann: cmdOpts.ann, nprobe, staleEmbeddings, semanticQuery: query, onWarning, highlight, recencyHalfLifeMs: times.recencyHalfLifeMs, recencyWeight }
             ));
 
         console.log(
           JSON.stringify({
             ok: true,
             mode: hasFilter ? 'hybrid-filtered' : 'hybrid',
+            fusion,
             query,
             filter: hasFilter ? filter : undefined,
             results,
-            embeddingModel: cmdOpts.embeddingModel ?? 'bge-m3',
-            ollamaBaseUrl: cmdOpts.ollamaBaseUrl ?? 'http://127.0.0.1:11434',
+            warnings: warnings.length ? warnings : undefined,
+            ...embeddingOutput(cfg),
           })
         );
       });
@@ -221,6 +546,81 @@ registerSearchCommand('search');
 // Back-compat with README/skill naming.
 registerSearchCommand('recall');
 
+program
+  .command('update <id>')
+  .description('Update an existing item (only the given fields are changed)')
+  .option('--text <text>', 'New text content')
+  .option('--title <title>', 'New title (empty string clears it)')
+  .option('--tags <tags>', 'New tags (empty string clears them)')
+  .option('--meta <json>', 'New JSON metadata (string)')
+  .option('--entity-id <entityId>', 'New entity id (empty string clears it)')
+  .option('--process-id <processId>', 'New process id (empty string clears it)')
+  .option('--session-id <sessionId>', 'New session id (empty string clears it)')
+  .action((id: string, cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+
+      const orNull = (v: unknown) => (v === undefined ? undefined : String(v) || null);
+
+      let meta: unknown = undefined;
+      if (cmdOpts.meta !== undefined) {
+        try {
+          meta = JSON.parse(String(cmdOpts.meta));
+        } catch (e: any) {
+          process.exitCode = 2;
+          console.log(
+            JSON.stringify({
+              ok: false,
+              error: 'Invalid JSON for --meta',
+              details: String(e?.message ?? e),
+            })
+          );
+          return;
+        }
+      }
+
+      if (cmdOpts.text !== undefined && !String(cmdOpts.text).trim()) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: 'Text cannot be empty' }));
+        return;
+      }
+
+      const item = updateItem(db, id, {
+        text: cmdOpts.text !== undefined ? String(cmdOpts.text).trim() : undefined,
+        title: orNull(cmdOpts.title),
+        tags: orNull(cmdOpts.tags),
+        meta,
+        entity_id: orNull(cmdOpts.entityId),
+        process_id: orNull(cmdOpts.processId),
+        session_id: orNull(cmdOpts.sessionId),
+      });
+
+      if (!item) {
+        process.exitCode = 1;
+        console.log(JSON.stringify({ ok: false, error: 'Item not found', id }));
+        return;
+      }
+
+      console.log(JSON.stringify({ ok: true, item }));
+    });
+  });
+
+program
+  .command('forget <id>')
+  .description('Delete an item (and its embedding); optionally delete facts extracted from it')
+  .option('--cascade-facts', 'Also delete facts whose source is this item', false)
+  .action((id: string, cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const result = deleteItem(db, id, { cascadeFacts: Boolean(cmdOpts.cascadeFacts) });
+      console.log(JSON.stringify({ ok: true, id, ...result }));
+    });
+  });
+
 // Phase 1: Utility commands for attribution & session
 program
   .command('list-entities')
@@ -278,23 +678,236 @@ program
     });
   });
 
+// ============================================================================
+// Short-Term Memory (STM) commands
+// ============================================================================
+
+program
+  .command('stm-add')
+  .description('Add a short-term memory item (expires after --ttl)')
+  .argument('[text]', 'Text content. If omitted, reads from stdin.')
+  .option('--id <id>', 'Item id (default: uuid)')
+  .option('--ttl <duration>', 'Time to live (e.g. "90s", "30m", "2h", "7d"; bare number = ms). Default: no expiry')
+  .option('--importance <n>', 'Importance 0-1 (default 0.5)', '0.5')
+  .option('--title <title>', 'Title')
+  .option('--tags <tags>', 'Tags (freeform, e.g. "a,b,c")')
+  .option('--source <source>', 'Source (e.g. "whatsapp")')
+  .option('--source-id <sourceId>', 'Source id / external id')
+  .option('--entity-id <entityId>', 'Who said/wrote this (e.g. "loic", "system")')
+  .option('--process-id <processId>', 'Which agent/process captured this (e.g. "akasha")')
+  .option('--session-id <sessionId>', 'Session/conversation grouping')
+  .action((textArg: string | undefined, cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+
+      const text = (textArg ?? fs.readFileSync(0, 'utf8')).trim();
+      if (!text) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: 'Missing text (arg or stdin)' }));
+        return;
+      }
+
+      let ttlMs: number | undefined = undefined;
+      if (cmdOpts.ttl !== undefined) {
+        const parsed = parseDurationMs(String(cmdOpts.ttl));
+        if (parsed === null) {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Invalid --ttl (expected e.g. "30m", "2h", "7d")' }));
+          return;
+        }
+        ttlMs = parsed;
+      }
+
+      const rawImportance = parseNumberOption('--importance', cmdOpts.importance ?? 0.5);
+      if (rawImportance === null) return;
+      const importance = Math.max(0, Math.min(1, rawImportance));
+      const item = stm_insert(db, {
+        id: String(cmdOpts.id ?? uuidv4()),
+        title: cmdOpts.title ? String(cmdOpts.title) : null,
+        text,
+        tags: cmdOpts.tags ? String(cmdOpts.tags) : null,
+        source: cmdOpts.source ? String(cmdOpts.source) : null,
+        source_id: cmdOpts.sourceId ? String(cmdOpts.sourceId) : null,
+        meta: null,
+        entity_id: cmdOpts.entityId ? String(cmdOpts.entityId) : null,
+        process_id: cmdOpts.processId ? String(cmdOpts.processId) : null,
+        session_id: cmdOpts.sessionId ? String(cmdOpts.sessionId) : null,
+        ttlMs,
+        importance,
+      });
+
+      console.log(JSON.stringify({ ok: true, item }));
+    });
+  });
+
+program
+  .command('stm-recall <query>')
+  .description('Search short-term memory (FTS5), optionally merged with long-term memory')
+  .option('--limit <n>', 'Max results (default 10, max 200)', '10')
+  .option('--include-ltm', 'Also search long-term memory (items)', false)
+  .option('--query-mode <mode>', 'Query syntax: "simple" (default), "phrase", "boolean" or "fts5" (see search)')
+  .option('--snippet', 'Add an FTS5 snippet (best-matching window, matches marked) to each hit', false)
+  .option('--snippet-tokens <n>', 'Snippet window size in tokens (1..64, default 16)')
+  .action((query: string, cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const limit = Math.max(1, Math.min(200, Number(cmdOpts.limit ?? 10)));
+      const snippetTokens = parseSnippetTokens(cmdOpts.snippetTokens);
+      if (snippetTokens === null) return;
+      let results;
+      try {
+        results = stm_recall(db, query, {
+          limit,
+          includeLtm: Boolean(cmdOpts.includeLtm),
+          queryMode: cmdOpts.queryMode as QueryMode | undefined,
+          highlight: cmdOpts.snippet ? { snippet: true, tokens: snippetTokens } : undefined,
+        });
+      } catch (e: any) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
+        return;
+      }
+      console.log(JSON.stringify({ ok: true, query, count: results.length, results }));
+    });
+  });
+
+program
+  .command('stm-maintain')
+  .description('Delete expired short-term memories and evict the least important ones above --max-items')
+  .option('--max-items <n>', 'Maximum number of STM items to keep')
+  .option('--access-boost <n>', 'Importance added per doubling of recall count (default 0.1)')
+  .option('--half-life <duration>', 'Importance half-life since last recall (e.g. "12h", "7d"; 0 disables). Default 24h')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+
+      let halfLifeMs: number | undefined = undefined;
+      if (cmdOpts.halfLife !== undefined) {
+        const parsed = parseDurationMs(String(cmdOpts.halfLife));
+        if (parsed === null) {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Invalid --half-life (expected e.g. "12h", "7d")' }));
+          return;
+        }
+        halfLifeMs = parsed;
+      }
+
+      let maxItems: number | undefined = undefined;
+      if (cmdOpts.maxItems !== undefined) {
+        const parsed = parseNumberOption('--max-items', cmdOpts.maxItems);
+        if (parsed === null) return;
+        maxItems = Math.max(0, parsed);
+      }
+      let accessBoost: number | undefined = undefined;
+      if (cmdOpts.accessBoost !== undefined) {
+        const parsed = parseNumberOption('--access-boost', cmdOpts.accessBoost);
+        if (parsed === null) return;
+        accessBoost = Math.max(0, parsed);
+      }
+      const result = stm_maintain(db, { maxItems, accessBoost, halfLifeMs });
+      console.log(JSON.stringify({ ok: true, ...result }));
+    });
+  });
+
+program
+  .command('access-stats')
+  .description('List the most frequently recalled items (long-term or short-term memory)')
+  .option('--scope <scope>', 'ltm or stm (default ltm)', 'ltm')
+  .option('--limit <n>', 'Max results (default 20)', '20')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const scope = cmdOpts.scope === 'stm' ? 'stm' : 'ltm';
+      const limit = Math.max(1, Math.min(500, Number(cmdOpts.limit ?? 20)));
+      const items = getMostAccessed(db, scope, limit);
+      console.log(JSON.stringify({ ok: true, scope, count: items.length, items }));
+    });
+  });
+
+program
+  .command('stm-consolidate')
+  .description('Promote important or frequently recalled STM items into long-term memory (run on a schedule, e.g. cron)')
+  .option('--min-importance <n>', 'Promote items with importance >= n (default 0.7)', '0.7')
+  .option('--min-recalls <n>', 'Promote items recalled at least n times (default 3, 0 disables)', '3')
+  .option('--keep-stm', 'Keep promoted items in STM (default: remove them)', false)
+  .option('--dry-run', 'Report what would be promoted without writing anything', false)
+  .option('--maintain', 'Run stm-maintain afterwards (expiry + overflow eviction)', false)
+  .option('--max-items <n>', 'With --maintain: maximum number of STM items to keep')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const minImportance = parseNumberOption('--min-importance', cmdOpts.minImportance ?? 0.7);
+      if (minImportance === null) return;
+      const minRecalls = parseNumberOption('--min-recalls', cmdOpts.minRecalls ?? 3);
+      if (minRecalls === null) return;
+      let maxItems: number | undefined = undefined;
+      if (cmdOpts.maxItems !== undefined) {
+        const parsed = parseNumberOption('--max-items', cmdOpts.maxItems);
+        if (parsed === null) return;
+        maxItems = Math.max(0, parsed);
+      }
+
+      const result = stm_consolidate(db, {
+        minImportance: Math.max(0, Math.min(1, minImportance)),
+        minRecalls: Math.max(0, minRecalls),
+        keepStm: Boolean(cmdOpts.keepStm),
+        dryRun: Boolean(cmdOpts.dryRun),
+      });
+      const maintenance = cmdOpts.maintain && !cmdOpts.dryRun ? stm_maintain(db, { maxItems }) : undefined;
+      console.log(JSON.stringify({ ok: true, ...result, count: result.promoted.length, maintenance }));
+    });
+  });
+
 // ============================================================================
 // Phase 2: Fact commands
 // ============================================================================
 
+const AS_OF_HELP = 'Only facts valid at this time (ISO date, epoch ms, "30d" = 30 days ago, or "now"); default all';
+
+/**
+ * Parse --as-of; prints the error and returns null when invalid.
+ */
+function parseAsOf(raw: unknown): number | undefined | null {
+  if (raw === undefined) return undefined;
+  const parsed = String(raw) === 'now' ? Date.now() : parseTimeMs(String(raw));
+  if (parsed === null) {
+    process.exitCode = 2;
+    console.log(JSON.stringify({ ok: false, error: `Invalid value for --as-of: ${raw}` }));
+  }
+  return parsed;
+}
+
 program
   .command('add-fact <subject> <predicate> <object>')
-  .description('Add a structured fact (subject, predicate, object)')
+  .description('Add a structured fact (subject, predicate, object); an identical existing triple is reinforced instead')
   .option('--confidence <n>', 'Confidence level 0-1 (default 0.7)', '0.7')
   .option('--entity-id <entityId>', 'Who said/wrote this fact')
   .option('--source-item-id <itemId>', 'Source memory item ID')
+  .option('--valid-from <when>', 'When the fact became true (ISO date, epoch ms, or "30d" = 30 days ago); default now')
   .action((subject: string, predicate: string, object: string, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
+      const validFrom = cmdOpts.validFrom !== undefined ? parseTimeMs(String(cmdOpts.validFrom)) : undefined;
+      if (validFrom === null) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: `Invalid value for --valid-from: ${cmdOpts.validFrom}` }));
+        return;
+      }
       const id = uuidv4();
       const confidence = Math.max(0, Math.min(1, Number(cmdOpts.confidence ?? 0.7)));
-      const fact = insertFact(db, {
+      const out = upsertFact(db, {
         id,
         subject,
         predicate,
@@ -302,8 +915,45 @@ program
         confidence,
         source_item_id: cmdOpts.sourceItemId ?? null,
         entity_id: cmdOpts.entityId ?? null,
+        valid_from: validFrom,
+        extractor: 'manual',
       });
-      console.log(JSON.stringify({ ok: true, fact }));
+      console.log(JSON.stringify({ ok: true, ...out }));
+    });
+  });
+
+program
+  .command('predicate-cardinality <predicate> [cardinality]')
+  .description('Show or set whether a predicate is "single"-valued (new values supersede old ones) or "multi"-valued')
+  .action((predicate: string, cardinality: string | undefined) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      if (cardinality === undefined) {
+        console.log(JSON.stringify({ ok: true, predicate, cardinality: getPredicateCardinality(db, predicate) }));
+        return;
+      }
+      if (cardinality !== 'single' && cardinality !== 'multi') {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: 'Invalid cardinality (expected "single" or "multi")' }));
+        return;
+      }
+      console.log(JSON.stringify({ ok: true, ...setPredicateCardinality(db, predicate, cardinality) }));
+    });
+  });
+
+program
+  .command('facts-dedupe')
+  .description('Merge duplicate facts (same subject/predicate/object, ignoring case and spacing) into one reinforced fact')
+  .option('--dry-run', 'Only report what would be merged', false)
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const out = dedupeFacts(db, { dryRun: Boolean(cmdOpts.dryRun) });
+      console.log(JSON.stringify({ ok: true, dryRun: Boolean(cmdOpts.dryRun), ...out }));
     });
   });
 
@@ -312,12 +962,16 @@ program
   .description('List all facts (optionally filtered by entity)')
   .option('--entity-id <entityId>', 'Filter by entity')
   .option('--limit <n>', 'Max results (default 50)', '50')
+  .option('--as-of <when>', AS_OF_HELP)
   .action((cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
       const limit = Math.max(1, Math.min(500, Number(cmdOpts.limit ?? 50)));
-      const facts = getAllFacts(db, cmdOpts.entityId, limit);
+      const facts = getAllFacts(db, cmdOpts.entityId, limit, { asOf });
       console.log(JSON.stringify({ ok: true, count: facts.length, facts }));
     });
   });
@@ -326,12 +980,16 @@ program
   .command('get-facts-by-subject <subject>')
   .description('Get all facts about a specific subject')
   .option('--limit <n>', 'Max results (default 50)', '50')
+  .option('--as-of <when>', AS_OF_HELP)
   .action((subject: string, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
       const limit = Math.max(1, Math.min(500, Number(cmdOpts.limit ?? 50)));
-      const facts = getFactsBySubject(db, subject, limit);
+      const facts = getFactsBySubject(db, subject, limit, { asOf });
       console.log(JSON.stringify({ ok: true, subject, count: facts.length, facts }));
     });
   });
@@ -340,12 +998,16 @@ program
   .command('search-facts <query>')
   .description('Search facts by subject, predicate, or object')
   .option('--limit <n>', 'Max results (default 50)', '50')
+  .option('--as-of <when>', AS_OF_HELP)
   .action((query: string, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
       const limit = Math.max(1, Math.min(500, Number(cmdOpts.limit ?? 50)));
-      const facts = searchFacts(db, query, limit);
+      const facts = searchFacts(db, query, limit, { asOf });
       console.log(JSON.stringify({ ok: true, query, count: facts.length, facts }));
     });
   });
@@ -381,32 +1043,223 @@ program
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
       const deleted = deleteFact(db, factId);
       console.log(JSON.stringify({ ok: true, deleted, id: factId }));
     });
   });
 
 program
+  .command('fact-why <factId>')
+  .description('Show where a fact comes from: its supporting memory items and how it was extracted')
+  .action((factId: string) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const provenance = getFactProvenance(db, factId);
+      if (!provenance) {
+        process.exitCode = 1;
+        console.log(JSON.stringify({ ok: false, error: 'Fact not found', id: factId }));
+        return;
+      }
+      console.log(JSON.stringify({ ok: true, ...provenance }));
+    });
+  });
+
+function collectOption(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Build extraction options from --pack/--no-default-packs/--language; prints the error and
+ * returns null when a pack file cannot be read or is invalid.
+ */
+function loadFactPatterns(cmdOpts: any): FactExtractionOpts | null {
+  try {
+    const custom = (cmdOpts.pack ?? []).map((file: string) => parseFactPatternPack(fs.readFileSync(file, 'utf8')));
+    return {
+      packs: [...(cmdOpts.defaultPacks === false ? [] : DEFAULT_FACT_PATTERN_PACKS), ...custom],
+      languages: cmdOpts.language ? String(cmdOpts.language).split(',').map((l) => l.trim()).filter(Boolean) : undefined,
+    };
+  } catch (e: any) {
+    process.exitCode = 2;
+    console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
+    return null;
+  }
+}
+
+function withFactPatternOptions(cmd: Command): Command {
+  return cmd
+    .option('--pack <file>', 'Extra pattern pack (JSON file); repeatable', collectOption)
+    .option('--no-default-packs', 'Only use the --pack files (skip the built-in en/fr packs)')
+    .option('--language <codes>', 'Only run rules for these languages (comma-separated, e.g. "en,fr")');
+}
+
+withFactPatternOptions(program
   .command('extract-facts [text]')
-  .description('Extract potential facts from text (pattern-based, does not store)')
-  .action((text: string | undefined) => {
-    const input = text ?? fs.readFileSync(0, 'utf-8');
-    const facts = extractFactsSimple(input);
-    console.log(JSON.stringify({ ok: true, count: facts.length, facts }));
+  .description('Extract potential facts from text or a stored item (pattern packs; stored only with --save)')
+  .option('--item <itemId>', 'Extract from this stored item instead of text/stdin')
+  .option('--save', 'Store the facts (merged into identical ones); with --item they link back to the item', false)
+  .option('--entity-id <entityId>', 'Who stated the facts, used by first-person rules (text input only; --item uses the item\'s entity)')
+  .option('--min-confidence <n>', 'Drop extracted facts below this confidence (0..1)'))
+  .action((text: string | undefined, cmdOpts) => {
+    const patterns = loadFactPatterns(cmdOpts);
+    if (!patterns) return;
+    const minConfidence = cmdOpts.minConfidence !== undefined ? parseNumberOption('--min-confidence', cmdOpts.minConfidence) : 0;
+    if (minConfidence === null) return;
+    const extract = (input: string, entityId?: string) =>
+      extractFactsWithPatterns(input, entityId, patterns).filter((f) => f.confidence >= minConfidence);
+
+    if (!cmdOpts.item && !cmdOpts.save) {
+      const input = text ?? fs.readFileSync(0, 'utf-8');
+      const facts = extract(input, cmdOpts.entityId);
+      console.log(JSON.stringify({ ok: true, count: facts.length, facts }));
+      return;
+    }
+
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+
+      if (cmdOpts.item) {
+        const item = getItem(db, String(cmdOpts.item));
+        if (!item) {
+          process.exitCode = 1;
+          console.log(JSON.stringify({ ok: false, error: 'Item not found', id: cmdOpts.item }));
+          return;
+        }
+        if (!cmdOpts.save) {
+          const facts = extract(item.text, item.entity_id ?? undefined);
+          console.log(JSON.stringify({ ok: true, itemId: item.id, count: facts.length, facts }));
+          return;
+        }
+        const out = extractAndStoreFacts(db, item.id, { ...patterns, minConfidence })!;
+        console.log(JSON.stringify({ ok: true, saved: true, count: out.facts.length, ...out }));
+        return;
+      }
+
+      const input = text ?? fs.readFileSync(0, 'utf-8');
+      const saved = extract(input, cmdOpts.entityId).map((f) =>
+        upsertFact(db, {
+          id: uuidv4(),
+          subject: f.subject,
+          predicate: f.predicate,
+          object: f.object,
+          confidence: f.confidence,
+          source_item_id: null,
+          entity_id: cmdOpts.entityId ?? null,
+          extractor: `pattern:${f.rule}`,
+        })
+      );
+      console.log(JSON.stringify({
+        ok: true,
+        saved: true,
+        count: saved.length,
+        created: saved.filter((r) => r.created).length,
+        facts: saved.map((r) => r.fact),
+      }));
+    });
+  });
+
+withFactPatternOptions(program
+  .command('facts-backfill')
+  .description('Extract and store facts for every stored item (skips items that already have facts unless --force)')
+  .option('--force', 'Re-run extraction on all items (idempotent: facts are merged, not duplicated)', false)
+  .option('--batch-size <n>', 'Items read per page (default 500)')
+  .option('--min-confidence <n>', 'Drop extracted facts below this confidence (0..1)'))
+  .action((cmdOpts) => {
+    const patterns = loadFactPatterns(cmdOpts);
+    if (!patterns) return;
+    const numbers: { batchSize?: number; minConfidence?: number } = {};
+    for (const [key, flag] of [['batchSize', '--batch-size'], ['minConfidence', '--min-confidence']] as const) {
+      if (cmdOpts[key] === undefined) continue;
+      const parsed = parseNumberOption(flag, cmdOpts[key]);
+      if (parsed === null) return;
+      numbers[key] = parsed;
+    }
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const out = backfillFacts(db, {
+        ...patterns,
+        ...numbers,
+        force: Boolean(cmdOpts.force),
+        onProgress: (p) => console.error(`facts-backfill: ${p.scanned} items (created ${p.created}, reinforced ${p.reinforced})`),
+      });
+      console.log(JSON.stringify({ ok: true, ...out }));
+    });
+  });
+
+withFactPatternOptions(program
+  .command('fact-patterns')
+  .description('Print the pattern packs in use as JSON (a starting point for custom packs)'))
+  .action((cmdOpts) => {
+    const patterns = loadFactPatterns(cmdOpts);
+    if (!patterns) return;
+    const languages = patterns.languages?.map((l) => l.toLowerCase());
+    const packs = patterns.packs!.filter((p) => !languages || languages.includes(String(p.language).toLowerCase()));
+    console.log(JSON.stringify({ ok: true, packs }));
+  });
+
+withFactPatternOptions(program
+  .command('fact-patterns-test <samples>')
+  .description('Evaluate pattern packs on a JSON file of samples: [{ "text", "entity_id"?, "expect"?: [{ subject, predicate, object }] }]')
+  .option('--failures-only', 'Only list samples with missing or unexpected facts', false)
+  .option('--strict', 'Exit with code 1 when any sample has missing or unexpected facts', false))
+  .action((samplesFile: string, cmdOpts) => {
+    const patterns = loadFactPatterns(cmdOpts);
+    if (!patterns) return;
+
+    let samples: FactPatternSample[];
+    try {
+      samples = JSON.parse(fs.readFileSync(samplesFile, 'utf8'));
+      if (!Array.isArray(samples)) throw new Error('expected a JSON array');
+    } catch (e: any) {
+      process.exitCode = 2;
+      console.log(JSON.stringify({ ok: false, error: `Invalid samples file: ${String(e?.message ?? e)}` }));
+      return;
+    }
+
+    let out: FactPatternEvaluation;
+    try {
+      out = evaluateFactPatterns(samples, patterns);
+    } catch (e: any) {
+      process.exitCode = 2;
+      console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
+      return;
+    }
+    const failed = out.samples.filter((s) => s.missing.length > 0 || s.unexpected.length > 0);
+    if (cmdOpts.strict && failed.length > 0) process.exitCode = 1;
+    console.log(JSON.stringify({
+      ok: true,
+      totals: out.totals,
+      failed: failed.length,
+      rules: out.rules,
+      samples: cmdOpts.failuresOnly ? failed : out.samples,
+    }));
   });
 
 // ============================================================================
 // Phase 3: Knowledge Graph commands
 // ============================================================================
 
+const GRAPH_AS_OF_HELP = 'Use the facts valid at this time (ISO date, epoch ms, "30d" = 30 days ago); default now';
+
 program
   .command('graph-stats')
   .description('Get statistics about the knowledge graph')
-  .action(() => {
+  .option('--as-of <when>', GRAPH_AS_OF_HELP)
+  .action((cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
-      const stats = getGraphStats(db);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
+      const stats = getGraphStats(db, { asOf });
       console.log(JSON.stringify({ ok: true, stats }, null, 2));
     });
   });
@@ -414,11 +1267,15 @@ program
 program
   .command('graph-entity <entity>')
   .description('Get all facts connected to an entity (as subject or object)')
-  .action((entity: string) => {
+  .option('--as-of <when>', GRAPH_AS_OF_HELP)
+  .action((entity: string, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
-      const edges = getEntityGraph(db, entity);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
+      const edges = getEntityGraph(db, entity, { asOf });
       console.log(JSON.stringify({ ok: true, entity, count: edges.length, edges }));
     });
   });
@@ -426,11 +1283,15 @@ program
 program
   .command('graph-related <entity>')
   .description('Get all entities directly connected to an entity')
-  .action((entity: string) => {
+  .option('--as-of <when>', GRAPH_AS_OF_HELP)
+  .action((entity: string, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
-      const related = getRelatedEntities(db, entity);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
+      const related = getRelatedEntities(db, entity, { asOf });
       console.log(JSON.stringify({ ok: true, entity, count: related.length, related }));
     });
   });
@@ -440,13 +1301,17 @@ program
   .description('Find paths between two entities in the knowledge graph')
   .option('--max-depth <n>', 'Maximum path depth (default 4)', '4')
   .option('--max-paths <n>', 'Maximum number of paths to return (default 5)', '5')
+  .option('--as-of <when>', GRAPH_AS_OF_HELP)
   .action((fromEntity: string, toEntity: string, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
       const maxDepth = Math.max(1, Math.min(10, Number(cmdOpts.maxDepth ?? 4)));
       const maxPaths = Math.max(1, Math.min(20, Number(cmdOpts.maxPaths ?? 5)));
-      const paths = findPaths(db, fromEntity, toEntity, maxDepth, maxPaths);
+      const paths = findPaths(db, fromEntity, toEntity, maxDepth, maxPaths, { asOf });
       console.log(JSON.stringify({ ok: true, from: fromEntity, to: toEntity, count: paths.length, paths }));
     });
   });
@@ -457,14 +1322,19 @@ program
   .option('--limit <n>', 'Max edges to export (default 1000)', '1000')
   .option('--min-confidence <n>', 'Minimum confidence threshold (default 0)', '0')
   .option('--entity <entity>', 'Export only subgraph around this entity')
+  .option('--as-of <when>', GRAPH_AS_OF_HELP)
   .action((outputFile: string | undefined, cmdOpts) => {
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
+      runMigrations(db);
+      const asOf = parseAsOf(cmdOpts.asOf);
+      if (asOf === null) return;
       const graph = exportGraphJson(db, {
         limit: Number(cmdOpts.limit ?? 1000),
         minConfidence: Number(cmdOpts.minConfidence ?? 0),
         entity: cmdOpts.entity,
+        asOf,
       });
 
       const output = JSON.stringify({ ok: true, graph }, null, 2);
@@ -497,14 +1367,191 @@ program
 
 program
   .command('embedding-stats')
-  .description('Get statistics about stored embeddings')
-  .action(() => {
+  .description('Get statistics about stored embeddings (and coverage of the active model)')
+  .option('--provider <name>', 'Embedding provider: "ollama" (default), "openai", or "local" (offline, no service needed)')
+  .option('--embedding-model <id>', 'Embedding model id (default bge-m3)')
+  .action((cmdOpts) => {
+    if (!checkProvider(cmdOpts.provider)) return;
     withDb((dbPath) => {
       const db = openDb(dbPath);
       initSchema(db);
-      const stats = getEmbeddingStats(db);
+      runMigrations(db);
+      const stats = getEmbeddingStats(
+        db,
+        embeddingModelName({ dbPath, provider: cmdOpts.provider, embeddingModel: cmdOpts.embeddingModel })
+      );
       const sizeMB = Math.round((stats.totalSizeBytes / (1024 * 1024)) * 100) / 100;
-      console.log(JSON.stringify({ ok: true, ...stats, sizeMB }, null, 2));
+      console.log(JSON.stringify({ ok: true, ...stats, sizeMB, annIndexes: listAnnIndexes(db) }, null, 2));
+    });
+  });
+
+program
+  .command('compact-embeddings')
+  .description('Re-encode stored embeddings in a smaller format and report bytes saved')
+  .option('--format <format>', 'Target format: "f16" (default), "int8", or "f32" to expand back', 'f16')
+  .option('--model <id>', 'Only convert embeddings of this model')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      if (!EMBEDDING_FORMATS.includes(cmdOpts.format)) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: 'Invalid --format (expected "f32", "f16" or "int8")' }));
+        return;
+      }
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const result = compactEmbeddings(db, { format: cmdOpts.format, model: cmdOpts.model });
+      const stats = getEmbeddingStats(db);
+      console.log(JSON.stringify({ ok: true, ...result, formats: stats.formats }, null, 2));
+    });
+  });
+
+program
+  .command('drop-embeddings')
+  .description('Delete all stored embeddings of a retired model (other models are kept)')
+  .requiredOption('--model <id>', 'Embedding model id to drop')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const deleted = deleteEmbeddingsByModel(db, String(cmdOpts.model));
+      console.log(JSON.stringify({ ok: true, model: cmdOpts.model, deleted }));
+    });
+  });
+
+program
+  .command('chunk')
+  .description('Split items into sentence-aware chunks (items not chunked yet, or one item with --id)')
+  .option('--id <id>', 'Only (re)chunk this item')
+  .option('--chunk-size <n>', 'Max characters per chunk (default 1000)')
+  .option('--chunk-overlap <n>', 'Characters shared by consecutive chunks (default 150)')
+  .option('--min-length <n>', 'Leave items shorter than this unchunked (default 0)')
+  .option('--force', 'Re-chunk items that already have chunks', false)
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const numbers: { chunkSize?: number; overlap?: number; minLength?: number } = {};
+      for (const [key, opt, flag] of [
+        ['chunkSize', 'chunkSize', '--chunk-size'],
+        ['overlap', 'chunkOverlap', '--chunk-overlap'],
+        ['minLength', 'minLength', '--min-length'],
+      ] as const) {
+        if (cmdOpts[opt] === undefined) continue;
+        const parsed = parseNumberOption(flag, cmdOpts[opt]);
+        if (parsed === null) return;
+        numbers[key] = parsed;
+      }
+      const { minLength, ...chunkOpts } = numbers;
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      if (cmdOpts.id) {
+        const chunks = chunkItem(db, String(cmdOpts.id), chunkOpts);
+        if (chunks.length === 0) process.exitCode = 1;
+        console.log(JSON.stringify({ ok: chunks.length > 0, id: cmdOpts.id, chunks }));
+        return;
+      }
+      const result = chunkItems(db, {
+        ...chunkOpts,
+        force: Boolean(cmdOpts.force),
+        minLength,
+      });
+      console.log(JSON.stringify({ ok: true, ...result }));
+    });
+  });
+
+program
+  .command('embed')
+  .description('Backfill embeddings for all items that lack one for the model (resumable)')
+  .option('--batch-size <n>', 'Items per batch (default 32)', '32')
+  .option('--concurrency <n>', 'Parallel embedding requests (default 4)', '4')
+  .option('--force', 'Re-embed every item, even if it already has an embedding', false)
+  .option('--chunks', 'Embed item chunks instead of whole items', false)
+  .option('--embedding-storage <format>', 'Vector storage format: "f32" (default), "f16" or "int8"')
+  .option('--provider <name>', 'Embedding provider: "ollama" (default), "openai", or "local" (offline, no service needed)')
+  .option('--ollama-base-url <url>', 'Ollama baseUrl (OpenAI-compatible). e.g. http://127.0.0.1:11434')
+  .option('--embedding-model <id>', 'Embedding model id (default bge-m3)')
+  .option('--ollama-timeout-ms <n>', 'Ollama timeout in ms (default 3000)')
+  .action(async (cmdOpts) => {
+    await withDb(async (dbPath) => {
+      if (cmdOpts.embeddingStorage && !EMBEDDING_FORMATS.includes(cmdOpts.embeddingStorage)) {
+        process.exitCode = 2;
+        console.log(JSON.stringify({ ok: false, error: 'Invalid --embedding-storage (expected "f32", "f16" or "int8")' }));
+        return;
+      }
+      if (!checkProvider(cmdOpts.provider)) return;
+      const batchSize = parseNumberOption('--batch-size', cmdOpts.batchSize ?? 32);
+      if (batchSize === null) return;
+      const concurrency = parseNumberOption('--concurrency', cmdOpts.concurrency ?? 4);
+      if (concurrency === null) return;
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+
+      const result = await embedMissing(
+        db,
+        {
+          dbPath,
+          provider: cmdOpts.provider,
+          ollamaBaseUrl: cmdOpts.ollamaBaseUrl,
+          embeddingModel: cmdOpts.embeddingModel,
+          ollamaTimeoutMs: cmdOpts.ollamaTimeoutMs ? Number(cmdOpts.ollamaTimeoutMs) : undefined,
+          embeddingStorage: cmdOpts.embeddingStorage,
+        },
+        {
+          batchSize: Math.max(1, batchSize),
+          concurrency: Math.max(1, concurrency),
+          force: Boolean(cmdOpts.force),
+          chunks: Boolean(cmdOpts.chunks),
+          // Progress goes to stderr so stdout stays a single JSON document.
+          onProgress: (p) => console.error(`embed: ${p.done}/${p.total} (embedded ${p.embedded}, failed ${p.failed})`),
+        }
+      );
+
+      if (result.aborted) process.exitCode = 1;
+      console.log(JSON.stringify({ ok: !result.aborted, ...result }));
+    });
+  });
+
+program
+  .command('ann-build')
+  .description('Build (or rebuild) the IVF approximate nearest-neighbour index for a model')
+  .requiredOption('--model <id>', 'Embedding model id to index')
+  .option('--lists <n>', 'Number of IVF lists (default sqrt(vector count))')
+  .option('--iterations <n>', 'k-means iterations (default 10)')
+  .option('--sample-size <n>', 'Vectors used to train centroids (default 20000)')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      const numbers: { lists?: number; iterations?: number; sampleSize?: number } = {};
+      for (const [key, flag] of [['lists', '--lists'], ['iterations', '--iterations'], ['sampleSize', '--sample-size']] as const) {
+        if (cmdOpts[key] === undefined) continue;
+        const parsed = parseNumberOption(flag, cmdOpts[key]);
+        if (parsed === null) return;
+        numbers[key] = parsed;
+      }
+      try {
+        const info = buildAnnIndex(db, { model: String(cmdOpts.model), ...numbers });
+        console.log(JSON.stringify({ ok: true, ...info }));
+      } catch (e: any) {
+        process.exitCode = 1;
+        console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
+      }
+    });
+  });
+
+program
+  .command('ann-drop')
+  .description('Remove the ANN index of a model (searches go back to exact scans)')
+  .requiredOption('--model <id>', 'Embedding model id')
+  .action((cmdOpts) => {
+    withDb((dbPath) => {
+      const db = openDb(dbPath);
+      initSchema(db);
+      runMigrations(db);
+      console.log(JSON.stringify({ ok: true, model: cmdOpts.model, dropped: dropAnnIndex(db, String(cmdOpts.model)) }));
     });
   });
 
@@ -513,7 +1560,40 @@ program
   .description('Run embedding operation benchmarks')
   .option('--dims <n>', 'Vector dimensions (default 1024)', '1024')
   .option('--iterations <n>', 'Iterations (default 5000)', '5000')
+  .option('--ann', 'Benchmark the ANN index of --model against exact search on the --db store', false)
+  .option('--model <id>', 'Embedding model id (with --ann)')
+  .option('--queries <n>', 'Query vectors sampled from the store (with --ann, default 20)')
+  .option('--top-k <n>', 'Results per query (with --ann, default 10)')
+  .option('--nprobe <n>', 'ANN lists to scan (with --ann, default 8)')
   .action((cmdOpts) => {
+    if (cmdOpts.ann) {
+      withDb((dbPath) => {
+        if (!cmdOpts.model) {
+          process.exitCode = 2;
+          console.log(JSON.stringify({ ok: false, error: 'Missing --model (required with --ann)' }));
+          return;
+        }
+        const numbers: { queries?: number; topK?: number; nprobe?: number } = {};
+        for (const [key, flag] of [['queries', '--queries'], ['topK', '--top-k'], ['nprobe', '--nprobe']] as const) {
+          if (cmdOpts[key] === undefined) continue;
+          const parsed = parseNumberOption(flag, cmdOpts[key]);
+          if (parsed === null) return;
+          numbers[key] = parsed;
+        }
+        const db = openDb(dbPath);
+        initSchema(db);
+        runMigrations(db);
+        try {
+          const ann = benchmarkAnnSearch(db, { model: String(cmdOpts.model), ...numbers });
+          console.log(JSON.stringify({ ok: true, ann }, null, 2));
+        } catch (e: any) {
+          process.exitCode = 1;
+          console.log(JSON.stringify({ ok: false, error: String(e?.message ?? e) }));
+        }
+      });
+      return;
+    }
+
     console.log('Running embedding benchmarks...\n');
     const results = runEmbeddingBenchmark();
     console.log(JSON.stringify({ ok: true, benchmark: results }, null, 2));
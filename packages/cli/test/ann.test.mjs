@@ -0,0 +1,19 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withTempCli } from './helpers.mjs';
+
+test('ann-build / search / benchmark --ann: non-numeric ANN options fail with exit code 2', () => {
+  withTempCli((run) => {
+    const build = run('ann-build', '--model', 'bge-m3', '--lists', 'many');
+    assert.equal(build.status, 2);
+    assert.deepEqual(build.out, { ok: false, error: 'Invalid value for --lists: many' });
+
+    const search = run('search', 'deploy', '--mode', 'semantic', '--nprobe', 'all');
+    assert.equal(search.status, 2);
+    assert.deepEqual(search.out, { ok: false, error: 'Invalid value for --nprobe: all' });
+
+    const bench = run('benchmark', '--ann', '--model', 'bge-m3', '--top-k', 'ten');
+    assert.equal(bench.status, 2);
+    assert.deepEqual(bench.out, { ok: false, error: 'Invalid value for --top-k: ten' });
+  });
+});
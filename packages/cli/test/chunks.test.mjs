@@ -0,0 +1,17 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withTempCli } from './helpers.mjs';
+
+test('chunk / add: non-numeric chunk options fail with exit code 2', () => {
+  withTempCli((run) => {
+    for (const [flag, value] of [['--chunk-size', 'abc'], ['--chunk-overlap', 'some'], ['--min-length', 'long']]) {
+      const out = run('chunk', flag, value);
+      assert.equal(out.status, 2);
+      assert.deepEqual(out.out, { ok: false, error: `Invalid value for ${flag}: ${value}` });
+    }
+
+    const add = run('add', 'First sentence. Second sentence.', '--chunk-size', 'abc');
+    assert.equal(add.status, 2);
+    assert.deepEqual(add.out, { ok: false, error: 'Invalid value for --chunk-size: abc' });
+  });
+});
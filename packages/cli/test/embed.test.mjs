@@ -0,0 +1,15 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withTempCli } from './helpers.mjs';
+
+test('embed: non-numeric --batch-size / --concurrency fail with exit code 2', () => {
+  withTempCli((run) => {
+    const batch = run('embed', '--provider', 'local', '--batch-size', 'abc');
+    assert.equal(batch.status, 2);
+    assert.deepEqual(batch.out, { ok: false, error: 'Invalid value for --batch-size: abc' });
+
+    const concurrency = run('embed', '--provider', 'local', '--concurrency', 'abc');
+    assert.equal(concurrency.status, 2);
+    assert.deepEqual(concurrency.out, { ok: false, error: 'Invalid value for --concurrency: abc' });
+  });
+});
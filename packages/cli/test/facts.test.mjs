@@ -0,0 +1,17 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withTempCli } from './helpers.mjs';
+
+test('extract-facts / facts-backfill: non-numeric --min-confidence fails with exit code 2', () => {
+  withTempCli((run) => {
+    const extract = run('extract-facts', 'I work at Fasst', '--min-confidence', 'high');
+    assert.equal(extract.status, 2);
+    assert.deepEqual(extract.out, { ok: false, error: 'Invalid value for --min-confidence: high' });
+
+    const backfill = run('facts-backfill', '--min-confidence', 'high');
+    assert.equal(backfill.status, 2);
+    assert.deepEqual(backfill.out, { ok: false, error: 'Invalid value for --min-confidence: high' });
+
+    assert.equal(run('extract-facts', 'I work at Fasst', '--entity-id', 'loic', '--min-confidence', '0.1').out.ok, true);
+  });
+});
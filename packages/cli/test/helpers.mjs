@@ -0,0 +1,23 @@
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const cliPath = path.resolve(import.meta.dirname, '..', 'dist', 'cli.js');
+
+/**
+ * Run the built CLI against a throwaway database: `run(...args)` returns the exit status and parsed JSON output.
+ */
+export function withTempCli(fn) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-mem-cli-'));
+  const dbPath = path.join(dir, 'memory.sqlite');
+  const run = (...args) => {
+    const res = spawnSync(process.execPath, [cliPath, '--db', dbPath, ...args], { encoding: 'utf8' });
+    return { status: res.status, out: JSON.parse(res.stdout.trim()) };
+  };
+  try {
+    return fn(run);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
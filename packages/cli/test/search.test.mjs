@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withTempCli } from './helpers.mjs';
+
+test('search: non-numeric hybrid scoring options fail with exit code 2', () => {
+  withTempCli((run) => {
+    assert.equal(run('add', 'green tea with lemon').out.ok, true);
+    for (const [flag, value] of [['--rrf-k', 'abc'], ['--candidates', 'lots'], ['--semantic-weight', 'half']]) {
+      const out = run('search', 'tea', '--mode', 'hybrid', '--provider', 'local', '--fusion', 'rrf', flag, value);
+      assert.equal(out.status, 2);
+      assert.deepEqual(out.out, { ok: false, error: `Invalid value for ${flag}: ${value}` });
+    }
+
+    const ok = run('search', 'tea', '--mode', 'hybrid', '--provider', 'local', '--fusion', 'rrf', '--rrf-k', '10');
+    assert.ok(ok.out.results.every((r) => typeof r.score === 'number'));
+  });
+});
+
+test('search: non-numeric --recency-weight fails with exit code 2', () => {
+  withTempCli((run) => {
+    assert.equal(run('add', 'green tea with lemon').out.ok, true);
+    const out = run('search', 'tea', '--recency-half-life', '7d', '--recency-weight', 'abc');
+    assert.equal(out.status, 2);
+    assert.deepEqual(out.out, { ok: false, error: 'Invalid value for --recency-weight: abc' });
+
+    const ok = run('search', 'tea', '--recency-half-life', '7d', '--recency-weight', '0.5');
+    assert.ok(ok.out.results.every((r) => typeof r.score === 'number'));
+  });
+});
+
+test('search: semantic / hybrid output reports the provider and model actually used', () => {
+  withTempCli((run) => {
+    assert.equal(run('add', 'green tea with lemon').out.ok, true);
+    for (const mode of ['semantic', 'hybrid']) {
+      const out = run('search', 'tea', '--mode', mode, '--provider', 'local').out;
+      assert.equal(out.provider, 'local');
+      assert.match(out.embeddingModel, /^local/);
+      assert.equal(out.ollamaBaseUrl, undefined);
+    }
+  });
+});
+
+test('search / stm-recall: --snippet-tokens must be a number in 1..64', () => {
+  withTempCli((run) => {
+    for (const cmd of ['search', 'stm-recall']) {
+      const word = run(cmd, 'tea', '--snippet', '--snippet-tokens', 'many');
+      assert.equal(word.status, 2);
+      assert.deepEqual(word.out, { ok: false, error: 'Invalid value for --snippet-tokens: many' });
+
+      const big = run(cmd, 'tea', '--snippet', '--snippet-tokens', '100');
+      assert.equal(big.status, 2);
+      assert.deepEqual(big.out, { ok: false, error: 'Invalid value for --snippet-tokens: 100 (expected 1..64)' });
+    }
+    assert.equal(run('search', 'tea', '--snippet', '--snippet-tokens', '8').out.ok, true);
+  });
+});
@@ -0,0 +1,40 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withTempCli } from './helpers.mjs';
+
+test('stm-add / stm-recall / stm-maintain: store, search and evict short-term memories', () => {
+  withTempCli((run) => {
+    assert.equal(run('stm-add', 'deploy staging tonight', '--id', 's1', '--importance', '0.9').out.ok, true);
+    assert.equal(run('stm-add', 'deploy prod friday', '--id', 's2', '--importance', '0.2', '--ttl', '1h').out.ok, true);
+
+    const recall = run('stm-recall', 'deploy');
+    assert.equal(recall.status, 0);
+    assert.deepEqual(recall.out.results.map((r) => r.item.id).sort(), ['s1', 's2']);
+
+    const maintain = run('stm-maintain', '--max-items', '1');
+    assert.equal(maintain.out.ok, true);
+    assert.deepEqual(run('stm-recall', 'deploy').out.results.map((r) => r.item.id), ['s1']);
+  });
+});
+
+test('stm-add / stm-maintain / stm-consolidate: non-numeric options fail with exit code 2', () => {
+  withTempCli((run) => {
+    const add = run('stm-add', 'some text', '--importance', 'high');
+    assert.equal(add.status, 2);
+    assert.deepEqual(add.out, { ok: false, error: 'Invalid value for --importance: high' });
+
+    const maintain = run('stm-maintain', '--max-items', 'lots');
+    assert.equal(maintain.status, 2);
+    assert.deepEqual(maintain.out, { ok: false, error: 'Invalid value for --max-items: lots' });
+
+    const boost = run('stm-maintain', '--access-boost', 'big');
+    assert.equal(boost.status, 2);
+    assert.deepEqual(boost.out, { ok: false, error: 'Invalid value for --access-boost: big' });
+
+    for (const [flag, value] of [['--min-importance', 'abc'], ['--min-recalls', 'often'], ['--max-items', '']]) {
+      const consolidate = run('stm-consolidate', '--maintain', flag, value);
+      assert.equal(consolidate.status, 2);
+      assert.deepEqual(consolidate.out, { ok: false, error: `Invalid value for ${flag}: ${value}` });
+    }
+  });
+});
@@ -1,9 +1,11 @@
 import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
 
 export type MemConfig = {
   dbPath: string;
   // Embeddings provider configuration. Defaults to Ollama+bge-m3 for backward compatibility.
-  provider?: 'ollama' | 'openai';
+  // "local" is the built-in offline provider; other names must be registered (registerEmbeddingProvider).
+  provider?: 'ollama' | 'openai' | 'local' | (string & {});
 
   // Ollama-specific config
   ollamaBaseUrl?: string; // default http://127.0.0.1:11434
@@ -16,8 +18,22 @@ export type MemConfig = {
 
   // Generic embedding model name (used as default for the chosen provider)
   embeddingModel?: string; // default bge-m3 for Ollama; text-embedding-3-small for OpenAI
+
+  // Local provider config
+  localEmbeddingDims?: number; // default 256
+
+  // How new vectors are persisted: f32 (default), f16 (half the size) or int8 (a quarter, plus a scale)
+  embeddingStorage?: EmbeddingFormat;
+
+  // Batching / retries for /v1/embeddings requests (both providers)
+  embeddingBatchSize?: number; // inputs per request, default 32
+  embeddingMaxRetries?: number; // retries on 429/5xx, default 2
+  embeddingRetryBaseMs?: number; // backoff base delay, doubled per attempt, default 250
+  embeddingMaxRetryDelayMs?: number; // cap on any single wait, Retry-After included, default 5000
 };
 
+export type EmbeddingFormat = 'f32' | 'f16' | 'int8';
+
 export type MemItem = {
   id: string;
   created_at: number;
@@ -48,9 +64,11 @@ export type StmItem = {
   entity_id: string | null;
   process_id: string | null;
   session_id: string | null;
+  access_count: number;            // How many times stm_recall returned this item
+  last_accessed_at: number | null;
 };
 
-export type InsertStmInput = Omit<StmItem, 'created_at' | 'expires_at' | 'importance'> & {
+export type InsertStmInput = Omit<StmItem, 'created_at' | 'expires_at' | 'importance' | 'access_count' | 'last_accessed_at'> & {
   created_at?: number;
   expires_at?: number | null;
   ttlMs?: number;
@@ -61,6 +79,8 @@ export type StmResult = {
   item: StmItem | MemItem;
   lexicalScore: number;
   scope: 'stm' | 'ltm';
+  snippet?: string;
+  highlight?: string;
 };
 
 // Phase 2: Structured Facts
@@ -73,14 +93,65 @@ export type Fact = {
   confidence: number;   // 0-1, how confident we are in this fact
   source_item_id: string | null;  // Link to the memory item it was extracted from
   entity_id: string | null;       // Who said/wrote this fact
+  valid_from?: number;            // When the fact became true (default: created_at)
+  valid_to?: number | null;       // When it stopped being true (null: still valid)
+  superseded_by?: string | null;  // Fact that replaced it (single-valued predicates)
+  extractor?: string | null;      // How it was produced: "pattern:<pack>/<rule>", "manual", ...
 };
 
-export type InsertFactInput = Omit<Fact, 'created_at'> & { created_at?: number };
+export type InsertFactInput = Omit<Fact, 'created_at' | 'superseded_by'> & { created_at?: number };
+
+// Single-valued predicates keep one current object per subject; a new value supersedes the old one.
+export type PredicateCardinality = 'single' | 'multi';
+
+export const DEFAULT_PREDICATE_CARDINALITY: Record<string, PredicateCardinality> = {
+  works_at: 'single',
+};
 
 export type InsertItemInput = Omit<MemItem, 'created_at'> & { created_at?: number };
 
-export type LexicalResult = { item: MemItem; lexicalScore: number };
-export type HybridResult = LexicalResult & { semanticScore: number | null; score: number };
+export type LexicalResult = {
+  item: MemItem;
+  lexicalScore: number;
+  snippet?: string;   // FTS5 snippet(): best-matching window, when requested via HighlightOpts
+  highlight?: string; // FTS5 highlight(): full text with matches marked, when requested
+};
+
+// FTS5 snippet()/highlight() output for lexical matches.
+export type HighlightOpts = {
+  snippet?: boolean;
+  highlight?: boolean;
+  open?: string;     // Marker before a matched token (default "**")
+  close?: string;    // Marker after a matched token (default "**")
+  ellipsis?: string; // Snippet truncation marker (default "…")
+  tokens?: number;   // Snippet window in tokens, 1..64 (default 16)
+};
+export type HybridResult = LexicalResult & {
+  semanticScore: number | null;
+  recencyScore?: number; // 0..1 time-decay term, present when a recency half-life is configured
+  score: number;
+  // Per-component ranks (1-based) among the candidates, for debugging the fusion.
+  // null when the item has no score for that component (e.g. a recent item with no lexical match).
+  lexicalRank?: number | null;
+  semanticRank?: number | null;
+  recencyRank?: number | null;
+};
+
+export type FusionStrategy = 'linear' | 'rrf';
+
+// Non-fatal problems met while scoring a search (reported through `onWarning`).
+export type SearchWarning = {
+  code: 'embedding_unavailable' | 'embedding_dims_mismatch' | 'embedding_model_mismatch' | 'embedding_failed';
+  message: string;
+  count?: number; // Candidates affected
+  models?: string[]; // Other models found (embedding_model_mismatch)
+};
+
+export type RecencyOpts = {
+  recencyHalfLifeMs?: number; // Age at which the recency term halves; unset/0 disables recency scoring
+  recencyWeight?: number;     // Share of the final score given to recency (default 0.2)
+  now?: number;
+};
 
 export function openDb(dbPath: string): Database.Database {
   const db = new Database(dbPath);
@@ -89,7 +160,92 @@ export function openDb(dbPath: string): Database.Database {
   return db;
 }
 
-export function initSchema(db: Database.Database) {
+/**
+ * FTS5 tokenizer presets:
+ * - unicode61: SQLite default (case folding; single accents removed, so "prefere" finds "préfère")
+ * - folded:    unicode61 remove_diacritics 2, also folds stacked diacritics ("nguyen" finds "Nguyễn")
+ * - porter:    folded + English Porter stemming ("prefer" finds "prefers")
+ * - trigram:   substring matching on 3-char windows, accent-folded (typos / partial words; terms need >= 3 chars)
+ */
+export type FtsTokenizer = 'unicode61' | 'folded' | 'porter' | 'trigram';
+
+export const FTS_TOKENIZERS: Record<FtsTokenizer, string | null> = {
+  unicode61: null,
+  folded: 'unicode61 remove_diacritics 2',
+  porter: 'porter unicode61 remove_diacritics 2',
+  trigram: 'trigram remove_diacritics 1',
+};
+
+// FTS tables, their content table and indexed columns.
+const FTS_TABLES = [
+  { name: 'items_fts', content: 'items', columns: ['title', 'text', 'tags'] },
+  { name: 'stm_items_fts', content: 'stm_items', columns: ['title', 'text', 'tags'] },
+  { name: 'item_chunks_fts', content: 'item_chunks', columns: ['text'] },
+] as const;
+
+function assertFtsTokenizer(tokenizer: string): asserts tokenizer is FtsTokenizer {
+  if (!Object.keys(FTS_TOKENIZERS).includes(tokenizer)) {
+    throw new Error(`Unknown FTS tokenizer: ${tokenizer} (expected ${Object.keys(FTS_TOKENIZERS).join(', ')})`);
+  }
+}
+
+function ftsTokenizeClause(tokenize: string | null): string {
+  return tokenize ? `,\n      tokenize='${tokenize}'` : '';
+}
+
+/** Raw tokenize argument of an existing FTS table (null: SQLite default or no such table). */
+function ftsTokenizeOf(db: Database.Database, table: string): string | null {
+  const row = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) as { sql: string } | undefined;
+  return row ? (/tokenize\s*=\s*'([^']*)'/i.exec(row.sql)?.[1] ?? null) : null;
+}
+
+/**
+ * Tokenizer preset the long-term FTS index was built with (null for a custom tokenize string).
+ */
+export function getFtsTokenizer(db: Database.Database): FtsTokenizer | null {
+  const tokenize = ftsTokenizeOf(db, 'items_fts');
+  const found = (Object.keys(FTS_TOKENIZERS) as FtsTokenizer[]).find((k) => FTS_TOKENIZERS[k] === tokenize);
+  return found ?? null;
+}
+
+/**
+ * Migration: recreate items_fts, stm_items_fts and item_chunks_fts with another tokenizer and
+ * re-index them from their content tables. The sync triggers refer to the tables by name and keep working.
+ */
+export function setFtsTokenizer(
+  db: Database.Database,
+  tokenizer: FtsTokenizer
+): { tokenizer: FtsTokenizer; rebuilt: string[] } {
+  assertFtsTokenizer(tokenizer);
+  const tokenize = FTS_TOKENIZERS[tokenizer];
+  const rebuilt: string[] = [];
+  db.transaction(() => {
+    for (const t of FTS_TABLES) {
+      const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(t.name);
+      if (!exists || ftsTokenizeOf(db, t.name) === tokenize) continue;
+      db.exec(`
+        DROP TABLE ${t.name};
+        CREATE VIRTUAL TABLE ${t.name} USING fts5(
+          ${t.columns.join(', ')},
+          content='${t.content}',
+          content_rowid='rowid'${ftsTokenizeClause(tokenize)}
+        );
+        INSERT INTO ${t.name}(${t.name}) VALUES('rebuild');
+      `);
+      rebuilt.push(t.name);
+    }
+  })();
+  return { tokenizer, rebuilt };
+}
+
+/**
+ * Create tables, FTS indexes and triggers (safe to repeat).
+ * `tokenizer` applies to new FTS tables; on an existing database with another tokenizer it
+ * rebuilds the FTS indexes (see setFtsTokenizer). Without it, existing indexes are left as they are.
+ */
+export function initSchema(db: Database.Database, opts?: { tokenizer?: FtsTokenizer }) {
+  if (opts?.tokenizer) assertFtsTokenizer(opts.tokenizer);
+  const tokenize = ftsTokenizeClause(opts?.tokenizer ? FTS_TOKENIZERS[opts.tokenizer] : ftsTokenizeOf(db, 'items_fts'));
   db.exec(`
     CREATE TABLE IF NOT EXISTS items (
       id TEXT PRIMARY KEY,
@@ -103,7 +259,10 @@ export function initSchema(db: Database.Database) {
       -- Phase 1: Attribution & Session
       entity_id TEXT,
       process_id TEXT,
-      session_id TEXT
+      session_id TEXT,
+      -- Access tracking (bumped when a search returns the item)
+      access_count INTEGER NOT NULL DEFAULT 0,
+      last_accessed_at INTEGER
     );
 
     CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
@@ -111,7 +270,7 @@ export function initSchema(db: Database.Database) {
       text,
       tags,
       content='items',
-      content_rowid='rowid'
+      content_rowid='rowid'${tokenize}
     );
 
     -- Keep the FTS index in sync with items.
@@ -125,7 +284,7 @@ export function initSchema(db: Database.Database) {
       VALUES('delete', old.rowid, old.title, old.text, old.tags);
     END;
 
-    CREATE TRIGGER IF NOT EXISTS items_au AFTER UPDATE ON items BEGIN
+    CREATE TRIGGER IF NOT EXISTS items_au AFTER UPDATE OF title, text, tags ON items BEGIN
       INSERT INTO items_fts(items_fts, rowid, title, text, tags)
       VALUES('delete', old.rowid, old.title, old.text, old.tags);
       INSERT INTO items_fts(rowid, title, text, tags)
@@ -146,7 +305,9 @@ export function initSchema(db: Database.Database) {
       meta TEXT,
       entity_id TEXT,
       process_id TEXT,
-      session_id TEXT
+      session_id TEXT,
+      access_count INTEGER NOT NULL DEFAULT 0,
+      last_accessed_at INTEGER
     );
 
     CREATE VIRTUAL TABLE IF NOT EXISTS stm_items_fts USING fts5(
@@ -154,7 +315,7 @@ export function initSchema(db: Database.Database) {
       text,
       tags,
       content='stm_items',
-      content_rowid='rowid'
+      content_rowid='rowid'${tokenize}
     );
 
     CREATE TRIGGER IF NOT EXISTS stm_items_ai AFTER INSERT ON stm_items BEGIN
@@ -167,7 +328,7 @@ export function initSchema(db: Database.Database) {
       VALUES('delete', old.rowid, old.title, old.text, old.tags);
     END;
 
-    CREATE TRIGGER IF NOT EXISTS stm_items_au AFTER UPDATE ON stm_items BEGIN
+    CREATE TRIGGER IF NOT EXISTS stm_items_au AFTER UPDATE OF title, text, tags ON stm_items BEGIN
       INSERT INTO stm_items_fts(stm_items_fts, rowid, title, text, tags)
       VALUES('delete', old.rowid, old.title, old.text, old.tags);
       INSERT INTO stm_items_fts(rowid, title, text, tags)
@@ -178,15 +339,82 @@ export function initSchema(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_stm_entity_id ON stm_items(entity_id);
     CREATE INDEX IF NOT EXISTS idx_stm_session_id ON stm_items(session_id);
 
+    -- One vector per (item, model) so several embedding models can coexist.
     CREATE TABLE IF NOT EXISTS embeddings (
-      item_id TEXT PRIMARY KEY,
+      item_id TEXT NOT NULL,
       model TEXT NOT NULL,
       dims INTEGER NOT NULL,
       vector BLOB NOT NULL,
       updated_at INTEGER NOT NULL,
+      format TEXT NOT NULL DEFAULT 'f32', -- vector encoding: f32 | f16 | int8
+      PRIMARY KEY(item_id, model),
+      FOREIGN KEY(item_id) REFERENCES items(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model);
+
+    -- Optional IVF (inverted file) ANN index per model: k-means centroids + list assignments.
+    CREATE TABLE IF NOT EXISTS ann_indexes (
+      model TEXT PRIMARY KEY,
+      dims INTEGER NOT NULL,
+      lists INTEGER NOT NULL,
+      built_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS ann_centroids (
+      model TEXT NOT NULL,
+      list_id INTEGER NOT NULL,
+      centroid BLOB NOT NULL,
+      PRIMARY KEY(model, list_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS ann_assignments (
+      item_id TEXT NOT NULL,
+      model TEXT NOT NULL,
+      list_id INTEGER NOT NULL,
+      PRIMARY KEY(item_id, model)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_ann_assignments_list ON ann_assignments(model, list_id);
+
+    -- Chunks of long items (char offsets into items.text), searched and embedded separately.
+    CREATE TABLE IF NOT EXISTS item_chunks (
+      id TEXT PRIMARY KEY,
+      item_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      start_offset INTEGER NOT NULL,
+      end_offset INTEGER NOT NULL,
+      text TEXT NOT NULL,
       FOREIGN KEY(item_id) REFERENCES items(id)
     );
 
+    CREATE INDEX IF NOT EXISTS idx_item_chunks_item ON item_chunks(item_id, seq);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS item_chunks_fts USING fts5(
+      text,
+      content='item_chunks',
+      content_rowid='rowid'${tokenize}
+    );
+
+    CREATE TRIGGER IF NOT EXISTS item_chunks_ai AFTER INSERT ON item_chunks BEGIN
+      INSERT INTO item_chunks_fts(rowid, text) VALUES (new.rowid, new.text);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS item_chunks_ad AFTER DELETE ON item_chunks BEGIN
+      INSERT INTO item_chunks_fts(item_chunks_fts, rowid, text) VALUES('delete', old.rowid, old.text);
+    END;
+
+    CREATE TABLE IF NOT EXISTS chunk_embeddings (
+      chunk_id TEXT NOT NULL,
+      model TEXT NOT NULL,
+      dims INTEGER NOT NULL,
+      vector BLOB NOT NULL,
+      updated_at INTEGER NOT NULL,
+      format TEXT NOT NULL DEFAULT 'f32',
+      PRIMARY KEY(chunk_id, model),
+      FOREIGN KEY(chunk_id) REFERENCES item_chunks(id)
+    );
+
     -- Phase 2: Structured Facts Table
     CREATE TABLE IF NOT EXISTS facts (
       id TEXT PRIMARY KEY,
@@ -197,9 +425,32 @@ export function initSchema(db: Database.Database) {
       confidence REAL NOT NULL DEFAULT 0.5,
       source_item_id TEXT,
       entity_id TEXT,
+      triple_key TEXT, -- normalized subject/predicate/object, for deduplication
+      valid_from INTEGER,
+      valid_to INTEGER,
+      superseded_by TEXT,
+      extractor TEXT,
       FOREIGN KEY(source_item_id) REFERENCES items(id)
     );
 
+    -- Per-predicate cardinality overrides (default: DEFAULT_PREDICATE_CARDINALITY, else multi).
+    CREATE TABLE IF NOT EXISTS predicate_cardinality (
+      predicate TEXT PRIMARY KEY,
+      cardinality TEXT NOT NULL CHECK (cardinality IN ('single', 'multi'))
+    );
+
+    -- Every memory item supporting a fact (facts.source_item_id is the first one).
+    CREATE TABLE IF NOT EXISTS fact_sources (
+      fact_id TEXT NOT NULL,
+      item_id TEXT NOT NULL,
+      confidence REAL NOT NULL,
+      added_at INTEGER NOT NULL,
+      extractor TEXT,
+      PRIMARY KEY(fact_id, item_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_fact_sources_item ON fact_sources(item_id);
+
     -- Indexes for Phase 1: Attribution & Session filtering
     CREATE INDEX IF NOT EXISTS idx_items_entity_id ON items(entity_id);
     CREATE INDEX IF NOT EXISTS idx_items_process_id ON items(process_id);
@@ -210,6 +461,8 @@ export function initSchema(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_facts_predicate ON facts(predicate);
     CREATE INDEX IF NOT EXISTS idx_facts_entity_id ON facts(entity_id);
   `);
+
+  if (opts?.tokenizer) setFtsTokenizer(db, opts.tokenizer);
 }
 
 /**
@@ -224,6 +477,8 @@ export function runMigrations(db: Database.Database) {
     { col: 'entity_id', sql: 'ALTER TABLE items ADD COLUMN entity_id TEXT' },
     { col: 'process_id', sql: 'ALTER TABLE items ADD COLUMN process_id TEXT' },
     { col: 'session_id', sql: 'ALTER TABLE items ADD COLUMN session_id TEXT' },
+    { col: 'access_count', sql: 'ALTER TABLE items ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0' },
+    { col: 'last_accessed_at', sql: 'ALTER TABLE items ADD COLUMN last_accessed_at INTEGER' },
   ];
 
   for (const m of migrations) {
@@ -239,7 +494,8 @@ export function runMigrations(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_items_session_id ON items(session_id);
   `);
 
-  // STM tables/triggers/indexes (safe to repeat)
+  // STM tables/triggers/indexes (safe to repeat); STM FTS uses the same tokenizer as items_fts.
+  const tokenize = ftsTokenizeClause(ftsTokenizeOf(db, 'items_fts'));
   db.exec(`
     CREATE TABLE IF NOT EXISTS stm_items (
       id TEXT PRIMARY KEY,
@@ -254,7 +510,9 @@ export function runMigrations(db: Database.Database) {
       meta TEXT,
       entity_id TEXT,
       process_id TEXT,
-      session_id TEXT
+      session_id TEXT,
+      access_count INTEGER NOT NULL DEFAULT 0,
+      last_accessed_at INTEGER
     );
 
     CREATE VIRTUAL TABLE IF NOT EXISTS stm_items_fts USING fts5(
@@ -262,7 +520,7 @@ export function runMigrations(db: Database.Database) {
       text,
       tags,
       content='stm_items',
-      content_rowid='rowid'
+      content_rowid='rowid'${tokenize}
     );
 
     CREATE TRIGGER IF NOT EXISTS stm_items_ai AFTER INSERT ON stm_items BEGIN
@@ -275,7 +533,7 @@ export function runMigrations(db: Database.Database) {
       VALUES('delete', old.rowid, old.title, old.text, old.tags);
     END;
 
-    CREATE TRIGGER IF NOT EXISTS stm_items_au AFTER UPDATE ON stm_items BEGIN
+    CREATE TRIGGER IF NOT EXISTS stm_items_au AFTER UPDATE OF title, text, tags ON stm_items BEGIN
       INSERT INTO stm_items_fts(stm_items_fts, rowid, title, text, tags)
       VALUES('delete', old.rowid, old.title, old.text, old.tags);
       INSERT INTO stm_items_fts(rowid, title, text, tags)
@@ -286,6 +544,95 @@ export function runMigrations(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_stm_entity_id ON stm_items(entity_id);
     CREATE INDEX IF NOT EXISTS idx_stm_session_id ON stm_items(session_id);
   `);
+
+  // STM access tracking columns (added after the STM table shipped)
+  const stmCols = db.prepare("PRAGMA table_info(stm_items)").all() as { name: string }[];
+  const stmExisting = new Set(stmCols.map(c => c.name));
+
+  const stmMigrations = [
+    { col: 'access_count', sql: 'ALTER TABLE stm_items ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0' },
+    { col: 'last_accessed_at', sql: 'ALTER TABLE stm_items ADD COLUMN last_accessed_at INTEGER' },
+  ];
+
+  for (const m of stmMigrations) {
+    if (!stmExisting.has(m.col)) {
+      db.exec(m.sql);
+    }
+  }
+
+  // Embeddings keyed by item_id only (one model at a time) => rebuild with (item_id, model).
+  const embCols = db.prepare("PRAGMA table_info(embeddings)").all() as { name: string; pk: number }[];
+  const modelPk = embCols.find(c => c.name === 'model')?.pk ?? 0;
+  if (embCols.length > 0 && modelPk === 0) {
+    const rebuild = db.transaction(() => {
+      db.exec(`
+        CREATE TABLE embeddings_new (
+          item_id TEXT NOT NULL,
+          model TEXT NOT NULL,
+          dims INTEGER NOT NULL,
+          vector BLOB NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY(item_id, model),
+          FOREIGN KEY(item_id) REFERENCES items(id)
+        );
+        INSERT INTO embeddings_new (item_id, model, dims, vector, updated_at)
+          SELECT item_id, model, dims, vector, updated_at FROM embeddings;
+        DROP TABLE embeddings;
+        ALTER TABLE embeddings_new RENAME TO embeddings;
+      `);
+    });
+    rebuild();
+  }
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model);`);
+
+  // Fact dedup key (backfilled; duplicates themselves are merged by dedupeFacts)
+  const factCols = new Set((db.prepare("PRAGMA table_info(facts)").all() as { name: string }[]).map(c => c.name));
+  for (const col of ['triple_key TEXT', 'valid_from INTEGER', 'valid_to INTEGER', 'superseded_by TEXT', 'extractor TEXT']) {
+    if (!factCols.has(col.split(' ')[0]!)) db.exec(`ALTER TABLE facts ADD COLUMN ${col}`);
+  }
+  const sourceHasExtractor = (db.prepare("PRAGMA table_info(fact_sources)").all() as { name: string }[])
+    .some(c => c.name === 'extractor');
+  if (!sourceHasExtractor) db.exec(`ALTER TABLE fact_sources ADD COLUMN extractor TEXT`);
+  db.exec(`UPDATE facts SET valid_from = created_at WHERE valid_from IS NULL`);
+  const unkeyed = db
+    .prepare(`SELECT id, subject, predicate, object FROM facts WHERE triple_key IS NULL`)
+    .all() as { id: string; subject: string; predicate: string; object: string }[];
+  if (unkeyed.length > 0) {
+    const setKey = db.prepare(`UPDATE facts SET triple_key = ? WHERE id = ?`);
+    db.transaction(() => {
+      for (const f of unkeyed) setKey.run(factTripleKey(f.subject, f.predicate, f.object), f.id);
+    })();
+  }
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_facts_triple_key ON facts(triple_key);
+    CREATE INDEX IF NOT EXISTS idx_facts_subject_predicate ON facts(subject, predicate);
+  `);
+
+  // Vector storage format (existing rows are Float32)
+  const embHasFormat = (db.prepare("PRAGMA table_info(embeddings)").all() as { name: string }[])
+    .some(c => c.name === 'format');
+  if (!embHasFormat) {
+    db.exec(`ALTER TABLE embeddings ADD COLUMN format TEXT NOT NULL DEFAULT 'f32'`);
+  }
+
+  // Older databases re-index FTS on *any* update; restrict it to the indexed
+  // columns so access-count bumps don't rewrite the FTS index.
+  const triggers = db
+    .prepare(`SELECT name, sql FROM sqlite_master WHERE type = 'trigger' AND name IN ('items_au', 'stm_items_au')`)
+    .all() as { name: string; sql: string }[];
+  for (const t of triggers) {
+    if (/UPDATE\s+OF/i.test(t.sql)) continue;
+    const table = t.name === 'items_au' ? 'items' : 'stm_items';
+    db.exec(`
+      DROP TRIGGER ${t.name};
+      CREATE TRIGGER ${t.name} AFTER UPDATE OF title, text, tags ON ${table} BEGIN
+        INSERT INTO ${table}_fts(${table}_fts, rowid, title, text, tags)
+        VALUES('delete', old.rowid, old.title, old.text, old.tags);
+        INSERT INTO ${table}_fts(rowid, title, text, tags)
+        VALUES (new.rowid, new.title, new.text, new.tags);
+      END;
+    `);
+  }
 }
 
 /**
@@ -302,25 +649,232 @@ export function escapeFts5Query(query: string): string {
   return `"${q.replace(/"/g, '""')}"`;
 }
 
+/**
+ * How a user query is turned into an FTS5 MATCH expression:
+ * - simple:  plain words pass through, anything else becomes one phrase (escapeFts5Query)
+ * - phrase:  always one quoted phrase
+ * - fts5:    raw FTS5 syntax (NEAR(), column sets, ...); SQLite validates it at search time
+ * - boolean: safe subset parsed here: AND/OR/NOT, (groups), "phrases", prefix*, title:/tags:/text:
+ */
+export type QueryMode = 'simple' | 'phrase' | 'fts5' | 'boolean';
+
+export const QUERY_MODES: readonly QueryMode[] = ['simple', 'phrase', 'fts5', 'boolean'];
+
+/**
+ * Build the FTS5 MATCH expression for `query` in the given mode.
+ * Throws an Error ("Invalid query: ...") on malformed boolean queries or an unknown mode.
+ */
+export function buildFtsQuery(query: string, mode: QueryMode = 'simple'): string {
+  switch (mode) {
+    case 'simple':
+      return escapeFts5Query(query);
+    case 'phrase':
+      return `"${query.trim().replace(/"/g, '""')}"`;
+    case 'fts5': {
+      const q = query.trim();
+      if (!q) throw new Error('Invalid query: empty FTS5 query');
+      return q;
+    }
+    case 'boolean':
+      return parseBooleanQuery(query);
+    default:
+      throw new Error(`Invalid query mode: ${String(mode)} (expected ${QUERY_MODES.join(', ')})`);
+  }
+}
+
+const QUERY_COLUMNS = new Set(['title', 'text', 'tags']);
+
+type QueryToken =
+  | { kind: 'op'; op: 'AND' | 'OR' | 'NOT'; pos: number }
+  | { kind: '(' | ')'; pos: number }
+  | { kind: 'column'; column: string; pos: number }
+  | { kind: 'term'; text: string; prefix: boolean; pos: number };
+
+type QueryNode =
+  | { kind: 'term'; text: string; prefix: boolean }
+  | { kind: 'column'; column: string; child: QueryNode }
+  | { kind: 'op'; op: 'AND' | 'OR' | 'NOT'; left: QueryNode; right: QueryNode };
+
+function tokenizeBooleanQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const c = query[i]!;
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({ kind: c, pos: i });
+      i++;
+    } else if (c === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) throw new Error(`Invalid query: unterminated quote at position ${i}`);
+      const prefix = query[end + 1] === '*';
+      tokens.push({ kind: 'term', text: query.slice(i + 1, end), prefix, pos: i });
+      i = end + (prefix ? 2 : 1);
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i]!)) i++;
+      let word = query.slice(start, i);
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: 'op', op: word, pos: start });
+        continue;
+      }
+      const col = /^([a-z]+):/i.exec(word);
+      if (col && QUERY_COLUMNS.has(col[1]!.toLowerCase())) {
+        tokens.push({ kind: 'column', column: col[1]!.toLowerCase(), pos: start });
+        word = word.slice(col[0].length);
+        if (!word) continue; // "title: foo" / "title:(...)" / 'title:"..."'
+      }
+      const prefix = word.endsWith('*');
+      const text = prefix ? word.slice(0, -1) : word;
+      if (!text || text.includes('*')) {
+        throw new Error(`Invalid query: "*" must follow a word (prefix search, e.g. migr*) at position ${start}`);
+      }
+      tokens.push({ kind: 'term', text, prefix, pos: start });
+    }
+  }
+  return tokens;
+}
+
+function parseBooleanQuery(query: string): string {
+  const tokens = tokenizeBooleanQuery(query);
+  if (tokens.length === 0) return '""';
+  let at = 0;
+  const where = () => (at < tokens.length ? `at position ${tokens[at]!.pos}` : 'at end of query');
+
+  const parseOr = (): QueryNode => {
+    let left = parseAnd();
+    while (tokens[at]?.kind === 'op' && (tokens[at] as { op: string }).op === 'OR') {
+      at++;
+      left = { kind: 'op', op: 'OR', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  // Juxtaposition is an implicit AND; "a AND NOT b" is FTS5's binary "a NOT b".
+  const parseAnd = (): QueryNode => {
+    let left = parsePrimary();
+    for (;;) {
+      const t = tokens[at];
+      if (!t || t.kind === ')' || (t.kind === 'op' && t.op === 'OR')) return left;
+      if (t.kind === 'op' && t.op === 'AND') at++;
+      const n = tokens[at];
+      if (n?.kind === 'op' && n.op === 'NOT') {
+        at++;
+        left = { kind: 'op', op: 'NOT', left, right: parsePrimary() };
+      } else {
+        left = { kind: 'op', op: 'AND', left, right: parsePrimary() };
+      }
+    }
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const t = tokens[at];
+    if (!t) throw new Error(`Invalid query: expected a term ${where()}`);
+    if (t.kind === 'op') {
+      throw new Error(
+        t.op === 'NOT'
+          ? `Invalid query: NOT needs a term on its left (e.g. "deploy NOT staging") at position ${t.pos}`
+          : `Invalid query: expected a term before ${t.op} at position ${t.pos}`
+      );
+    }
+    if (t.kind === ')') throw new Error(`Invalid query: unexpected ")" at position ${t.pos}`);
+    at++;
+    if (t.kind === 'term') return { kind: 'term', text: t.text, prefix: t.prefix };
+    if (t.kind === 'column') {
+      const next = tokens[at];
+      if (!next || (next.kind !== 'term' && next.kind !== '(')) {
+        throw new Error(`Invalid query: ${t.column}: must be followed by a word, "phrase" or (group) at position ${t.pos}`);
+      }
+      return { kind: 'column', column: t.column, child: parsePrimary() };
+    }
+    const inner = parseOr();
+    if (tokens[at]?.kind !== ')') throw new Error(`Invalid query: missing ")" for "(" at position ${t.pos}`);
+    at++;
+    return inner;
+  };
+
+  const root = parseOr();
+  if (at < tokens.length) throw new Error(`Invalid query: unexpected ")" at position ${tokens[at]!.pos}`);
+  return renderQueryNode(root, 0);
+}
+
+const QUERY_PRECEDENCE = { OR: 1, AND: 2, NOT: 3 } as const;
+
+function renderQueryNode(node: QueryNode, parentPrec: number): string {
+  if (node.kind === 'term') return `"${node.text.replace(/"/g, '""')}"${node.prefix ? '*' : ''}`;
+  if (node.kind === 'column') {
+    const child = renderQueryNode(node.child, 0);
+    return `${node.column} : ${node.child.kind === 'op' ? `(${child})` : child}`;
+  }
+  const prec = QUERY_PRECEDENCE[node.op];
+  const out = `${renderQueryNode(node.left, prec)} ${node.op} ${renderQueryNode(node.right, prec + 1)}`;
+  return prec < parentPrec ? `(${out})` : out;
+}
+
+/**
+ * Check that an FTS5 MATCH expression parses, throwing the same "Invalid query" error a search would.
+ */
+export function validateFtsQuery(db: Database.Database, ftsQuery: string): void {
+  runFtsMatch(ftsQuery, () => db.prepare('SELECT 1 FROM items_fts WHERE items_fts MATCH ? LIMIT 1').get(ftsQuery));
+}
+
+/**
+ * Run an FTS MATCH statement, turning SQLite's terse fts5 parse errors into readable ones.
+ */
+function runFtsMatch<T>(query: string, run: () => T): T {
+  try {
+    return run();
+  } catch (e: any) {
+    const msg = String(e?.message ?? e);
+    if (/^fts5: |^no such column: /.test(msg)) {
+      throw new Error(`Invalid query ${JSON.stringify(query)}: ${msg.replace(/^fts5: /, '')}`);
+    }
+    throw e;
+  }
+}
+
 /**
  * Convenience wrapper for CLI usage: accepts meta as an object and stringifies it.
+ * With `extractFacts`, facts found in the text are stored with the item as source (extractAndStoreFacts).
  */
 export function addItem(
   db: Database.Database,
-  input: Omit<InsertItemInput, 'meta'> & { meta?: unknown }
+  input: Omit<InsertItemInput, 'meta'> & { meta?: unknown },
+  opts?: { extractFacts?: boolean }
 ): MemItem {
-  return insertItem(db, {
-    ...input,
-    meta: input.meta === undefined ? null : typeof input.meta === 'string' ? input.meta : JSON.stringify(input.meta),
-  });
+  return db.transaction(() => {
+    const item = insertItem(db, {
+      ...input,
+      meta: input.meta === undefined ? null : typeof input.meta === 'string' ? input.meta : JSON.stringify(input.meta),
+    });
+    if (opts?.extractFacts) extractAndStoreFacts(db, item.id);
+    return item;
+  })();
 }
 
 /**
  * Convenience wrapper for CLI usage: returns the escaped query and lexical results.
+ * With a recency half-life, a wider candidate pool is reranked by bm25 + recency.
  */
-export function searchItems(db: Database.Database, query: string, limit = 10) {
-  const escapedQuery = escapeFts5Query(query);
-  const results = lexicalSearch(db, escapedQuery, limit);
+export function searchItems(
+  db: Database.Database,
+  query: string,
+  limit = 10,
+  filter?: FilterOpts,
+  recency?: RecencyOpts,
+  opts?: { highlight?: HighlightOpts; queryMode?: QueryMode }
+): { query: string; escapedQuery: string; results: LexicalResult[] | HybridResult[] } {
+  const escapedQuery = buildFtsQuery(query, opts?.queryMode);
+  const highlight = opts?.highlight;
+  if (!recency?.recencyHalfLifeMs) {
+    const results = lexicalSearch(db, escapedQuery, limit, { filter, highlight });
+    return { query, escapedQuery, results };
+  }
+
+  const pool = lexicalSearch(db, escapedQuery, Math.max(50, limit), { filter, trackAccess: false, highlight });
+  const results = rankWithRecency(pool, recency).slice(0, limit);
+  recordAccess(db, 'ltm', results.map((r) => r.item.id), recency.now);
   return { query, escapedQuery, results };
 }
 
@@ -361,6 +915,124 @@ export function insertItem(db: Database.Database, input: InsertItemInput): MemIt
   };
 }
 
+/**
+ * Get a single memory item by ID.
+ */
+export function getItem(db: Database.Database, id: string): MemItem | null {
+  const r = db
+    .prepare(
+      `SELECT id, created_at, source, source_id, title, text, tags, meta, entity_id, process_id, session_id
+       FROM items
+       WHERE id = ?`
+    )
+    .get(id) as any;
+
+  if (!r) return null;
+  return {
+    id: r.id,
+    created_at: r.created_at,
+    source: r.source,
+    source_id: r.source_id,
+    title: r.title,
+    text: r.text,
+    tags: r.tags,
+    meta: r.meta,
+    entity_id: r.entity_id,
+    process_id: r.process_id,
+    session_id: r.session_id,
+  };
+}
+
+export type UpdateItemPatch = Partial<
+  Pick<MemItem, 'title' | 'text' | 'tags' | 'entity_id' | 'process_id' | 'session_id'>
+> & { meta?: unknown };
+
+/**
+ * Partially update a memory item. Only the fields present in `patch` are changed.
+ * FTS is kept in sync by the items_au trigger; if the text changes, the cached
+ * embedding is dropped so it gets recomputed on the next hybrid search, and
+ * chunks (if any) are rebuilt.
+ * Returns the updated item, or null if the item does not exist.
+ */
+export function updateItem(db: Database.Database, id: string, patch: UpdateItemPatch): MemItem | null {
+  const current = getItem(db, id);
+  if (!current) return null;
+
+  const next: MemItem = {
+    ...current,
+    title: patch.title !== undefined ? patch.title : current.title,
+    text: patch.text !== undefined ? patch.text : current.text,
+    tags: patch.tags !== undefined ? patch.tags : current.tags,
+    meta:
+      patch.meta === undefined
+        ? current.meta
+        : patch.meta === null || typeof patch.meta === 'string'
+          ? patch.meta
+          : JSON.stringify(patch.meta),
+    entity_id: patch.entity_id !== undefined ? patch.entity_id : current.entity_id,
+    process_id: patch.process_id !== undefined ? patch.process_id : current.process_id,
+    session_id: patch.session_id !== undefined ? patch.session_id : current.session_id,
+  };
+
+  const tx = db.transaction(() => {
+    db.prepare(
+      `UPDATE items
+       SET title = @title, text = @text, tags = @tags, meta = @meta,
+           entity_id = @entity_id, process_id = @process_id, session_id = @session_id
+       WHERE id = @id`
+    ).run({
+      id,
+      title: next.title,
+      text: next.text,
+      tags: next.tags,
+      meta: next.meta,
+      entity_id: next.entity_id,
+      process_id: next.process_id,
+      session_id: next.session_id,
+    });
+
+    if (next.text !== current.text) {
+      db.prepare('DELETE FROM embeddings WHERE item_id = ?').run(id);
+      db.prepare('DELETE FROM ann_assignments WHERE item_id = ?').run(id);
+      // Offsets would be stale: re-chunk (default settings) items that were chunked.
+      if (deleteItemChunks(db, id) > 0) insertChunks(db, id, next.text);
+    }
+  });
+  tx();
+
+  return next;
+}
+
+/**
+ * Delete a memory item along with its cached embedding and chunks.
+ * Facts extracted from the item are deleted when `cascadeFacts` is set;
+ * otherwise they are kept and detached (source_item_id set to NULL).
+ */
+export function deleteItem(
+  db: Database.Database,
+  id: string,
+  options?: { cascadeFacts?: boolean }
+): { deleted: boolean; deletedEmbeddings: number; deletedFacts: number } {
+  let deleted = false;
+  let deletedEmbeddings = 0;
+  let deletedFacts = 0;
+
+  const tx = db.transaction(() => {
+    deletedEmbeddings = db.prepare('DELETE FROM embeddings WHERE item_id = ?').run(id).changes;
+    db.prepare('DELETE FROM ann_assignments WHERE item_id = ?').run(id);
+    deleteItemChunks(db, id);
+    if (options?.cascadeFacts) {
+      deletedFacts = deleteFactsBySourceItem(db, id);
+    } else {
+      detachFactSource(db, id);
+    }
+    deleted = db.prepare('DELETE FROM items WHERE id = ?').run(id).changes > 0;
+  });
+  tx();
+
+  return { deleted, deletedEmbeddings, deletedFacts };
+}
+
 // =============================
 // STM (Short-Term Memory)
 // =============================
@@ -404,12 +1076,39 @@ export function stm_insert(db: Database.Database, input: InsertStmInput): StmIte
     entity_id: input.entity_id ?? null,
     process_id: input.process_id ?? null,
     session_id: input.session_id ?? null,
+    access_count: 0,
+    last_accessed_at: null,
   };
 }
 
+export type StmImportanceOpts = {
+  accessBoost?: number; // Added per doubling of access_count (default 0.1)
+  halfLifeMs?: number;  // Decay half-life since last access (or creation); default 24h, 0 disables
+};
+
+/**
+ * Effective importance of an STM item: its static importance, boosted by how often
+ * it was recalled and decayed by how long ago it was last used.
+ */
+export function stmEffectiveImportance(
+  item: Pick<StmItem, 'importance' | 'access_count' | 'last_accessed_at' | 'created_at'>,
+  now = Date.now(),
+  opts?: StmImportanceOpts
+): number {
+  const boost = opts?.accessBoost ?? 0.1;
+  const halfLifeMs = opts?.halfLifeMs ?? 24 * 60 * 60 * 1000;
+
+  const boosted = Math.min(1, item.importance + boost * Math.log2(1 + (item.access_count ?? 0)));
+  if (!halfLifeMs) return boosted;
+
+  const lastUsed = item.last_accessed_at ?? item.created_at;
+  const age = Math.max(0, now - lastUsed);
+  return boosted * Math.pow(0.5, age / halfLifeMs);
+}
+
 export function stm_maintain(
   db: Database.Database,
-  options?: { now?: number; maxItems?: number }
+  options?: { now?: number; maxItems?: number } & StmImportanceOpts
 ): { deletedExpired: number; deletedOverflow: number; total: number } {
   const now = options?.now ?? Date.now();
 
@@ -423,15 +1122,20 @@ export function stm_maintain(
     const total = totalRow?.count ?? 0;
     if (total > options.maxItems) {
       const toDelete = total - options.maxItems;
-      overflow = db
-        .prepare(
-          `DELETE FROM stm_items WHERE id IN (
-             SELECT id FROM stm_items
-             ORDER BY importance ASC, created_at ASC
-             LIMIT ?
-           )`
-        )
-        .run(toDelete).changes;
+      // Evict by effective importance so frequently recalled items survive.
+      const rows = db
+        .prepare(`SELECT id, created_at, importance, access_count, last_accessed_at FROM stm_items`)
+        .all() as Array<Pick<StmItem, 'id' | 'created_at' | 'importance' | 'access_count' | 'last_accessed_at'>>;
+      const victims = rows
+        .map((r) => ({ id: r.id, created_at: r.created_at, score: stmEffectiveImportance(r, now, options) }))
+        .sort((a, b) => a.score - b.score || a.created_at - b.created_at)
+        .slice(0, toDelete);
+
+      const del = db.prepare(`DELETE FROM stm_items WHERE id = ?`);
+      const tx = db.transaction(() => {
+        for (const v of victims) overflow += del.run(v.id).changes;
+      });
+      tx();
     }
   }
 
@@ -443,9 +1147,11 @@ export function stmLexicalSearch(
   db: Database.Database,
   query: string,
   limit = 10,
-  now = Date.now()
-): Array<{ item: StmItem; lexicalScore: number }> {
-  const rows = db
+  now = Date.now(),
+  opts?: { highlight?: HighlightOpts }
+): Array<{ item: StmItem; lexicalScore: number; snippet?: string; highlight?: string }> {
+  const marks = highlightColumns('stm_items_fts', opts?.highlight);
+  const rows = runFtsMatch(query, () => db
     .prepare(
       `
       SELECT
@@ -462,7 +1168,9 @@ export function stmLexicalSearch(
         s.entity_id,
         s.process_id,
         s.session_id,
-        bm25(stm_items_fts) AS bm25
+        s.access_count,
+        s.last_accessed_at,
+        bm25(stm_items_fts) AS bm25${marks.sql}
       FROM stm_items_fts
       JOIN stm_items s ON s.rowid = stm_items_fts.rowid
       WHERE stm_items_fts MATCH ?
@@ -471,7 +1179,7 @@ export function stmLexicalSearch(
       LIMIT ?
     `
     )
-    .all(query, now, limit) as any[];
+    .all(...marks.params, query, now, limit)) as any[];
 
   return rows.map((r) => ({
     item: {
@@ -488,8 +1196,11 @@ export function stmLexicalSearch(
       entity_id: r.entity_id,
       process_id: r.process_id,
       session_id: r.session_id,
+      access_count: r.access_count ?? 0,
+      last_accessed_at: r.last_accessed_at ?? null,
     },
     lexicalScore: -Number(r.bm25),
+    ...highlightFields(r),
   }));
 }
 
@@ -502,79 +1213,272 @@ export function stm_recall(
     stmLimit?: number;
     ltmLimit?: number;
     now?: number;
+    highlight?: HighlightOpts;
+    queryMode?: QueryMode;
   }
 ): StmResult[] {
-  const escapedQuery = escapeFts5Query(query);
+  const escapedQuery = buildFtsQuery(query, options?.queryMode);
   const limit = options?.limit ?? 10;
   const now = options?.now ?? Date.now();
   const stmLimit = options?.stmLimit ?? limit;
   const ltmLimit = options?.ltmLimit ?? limit;
 
-  const stm = stmLexicalSearch(db, escapedQuery, stmLimit, now).map((r) => ({
-    item: r.item,
-    lexicalScore: r.lexicalScore,
+  const stm = stmLexicalSearch(db, escapedQuery, stmLimit, now, { highlight: options?.highlight }).map((r) => ({
+    ...r,
     scope: 'stm' as const,
   }));
 
   const ltm = options?.includeLtm === false
     ? []
-    : lexicalSearch(db, escapedQuery, ltmLimit).map((r) => ({
-        item: r.item,
-        lexicalScore: r.lexicalScore,
+    : lexicalSearch(db, escapedQuery, ltmLimit, { trackAccess: false, highlight: options?.highlight }).map((r) => ({
+        ...r,
         scope: 'ltm' as const,
       }));
 
-  return [...stm, ...ltm]
+  const results = [...stm, ...ltm]
     .sort((a, b) => b.lexicalScore - a.lexicalScore)
     .slice(0, limit);
+
+  // Track recalls so consolidation and eviction keep what agents actually use.
+  recordAccess(db, 'stm', results.filter((r) => r.scope === 'stm').map((r) => r.item.id), now);
+  recordAccess(db, 'ltm', results.filter((r) => r.scope === 'ltm').map((r) => r.item.id), now);
+
+  return results;
 }
 
-export function lexicalSearch(db: Database.Database, query: string, limit = 10): LexicalResult[] {
+export type StmConsolidateOptions = {
+  minImportance?: number; // Promote items with importance >= this (default 0.7)
+  minRecalls?: number;    // ...or recalled at least this many times (default 3, 0 disables)
+  keepStm?: boolean;      // Keep the STM row after promotion (default false: it is deleted)
+  dryRun?: boolean;       // Report what would be promoted without writing anything
+  now?: number;
+};
+
+export type StmConsolidateResult = {
+  dryRun: boolean;
+  promoted: Array<{ stmId: string; itemId: string; reason: 'importance' | 'recalls' }>;
+  skipped: number; // Already promoted (an item records it in meta.stm.id); the STM row is removed unless keepStm
+};
+
+/**
+ * Promote important or frequently recalled STM items into long-term memory (items).
+ * Expired rows are considered too, so run this before stm_maintain deletes them.
+ * Attribution is preserved and provenance is recorded under `meta.stm`.
+ * The promoted item reuses the STM id (or a fresh one if an unrelated item already has it),
+ * and repeated runs are idempotent: a row promoted by an earlier keepStm run is skipped,
+ * and removed now unless keepStm is set again.
+ */
+export function stm_consolidate(
+  db: Database.Database,
+  options?: StmConsolidateOptions
+): StmConsolidateResult {
+  const minImportance = options?.minImportance ?? 0.7;
+  const minRecalls = options?.minRecalls ?? 3;
+  const now = options?.now ?? Date.now();
+  const dryRun = options?.dryRun ?? false;
+
   const rows = db
     .prepare(
-      `
-      SELECT
-        i.id,
-        i.created_at,
-        i.source,
-        i.source_id,
-        i.title,
-        i.text,
-        i.tags,
-        i.meta,
-        i.entity_id,
-        i.process_id,
-        i.session_id,
-        bm25(items_fts) AS bm25
-      FROM items_fts
-      JOIN items i ON i.rowid = items_fts.rowid
-      WHERE items_fts MATCH ?
-      ORDER BY bm25 ASC
-      LIMIT ?
-    `
+      `SELECT id, created_at, expires_at, importance, source, source_id, title, text, tags, meta,
+              entity_id, process_id, session_id, access_count, last_accessed_at
+       FROM stm_items
+       WHERE importance >= ? OR (? > 0 AND access_count >= ?)
+       ORDER BY created_at ASC`
     )
-    .all(query, limit) as any[];
+    .all(minImportance, minRecalls, minRecalls) as StmItem[];
+
+  const stmIdSql = `CASE WHEN json_valid(meta) THEN json_extract(meta, '$.stm.id') END`;
+  const existing = db.prepare(`SELECT ${stmIdSql} AS stm_id FROM items WHERE id = ?`);
+  // Promoted under a fresh id because of an id collision (see below).
+  const promotedElsewhere = db.prepare(`SELECT 1 FROM items WHERE id != ? AND ${stmIdSql} = ? LIMIT 1`);
+  const promoted: StmConsolidateResult['promoted'] = [];
+  let skipped = 0;
+
+  const tx = db.transaction(() => {
+    for (const r of rows) {
+      const clash = existing.get(r.id) as { stm_id: string | null } | undefined;
+      if (clash && (clash.stm_id === r.id || promotedElsewhere.get(r.id, r.id))) {
+        skipped++;
+        if (!dryRun && !options?.keepStm) db.prepare('DELETE FROM stm_items WHERE id = ?').run(r.id);
+        continue;
+      }
 
-  return rows.map((r) => ({
-    item: {
-      id: r.id,
-      created_at: r.created_at,
-      source: r.source,
-      source_id: r.source_id,
-      title: r.title,
-      text: r.text,
-      tags: r.tags,
-      meta: r.meta,
-      entity_id: r.entity_id,
-      process_id: r.process_id,
-      session_id: r.session_id,
-    },
-    // bm25: lower is better; flip sign so higher is better
-    lexicalScore: -Number(r.bm25),
-  }));
-}
+      // An unrelated item already uses this id: promote under a fresh one (meta.stm.id keeps the link).
+      const itemId = clash ? randomUUID() : r.id;
+      const reason = r.importance >= minImportance ? 'importance' : 'recalls';
+      promoted.push({ stmId: r.id, itemId, reason });
+      if (dryRun) continue;
+
+      let meta: Record<string, unknown> = {};
+      if (r.meta) {
+        try {
+          const parsed = JSON.parse(r.meta);
+          meta = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value: parsed };
+        } catch {
+          meta = { value: r.meta };
+        }
+      }
+      meta.stm = {
+        id: r.id,
+        created_at: r.created_at,
+        expires_at: r.expires_at,
+        importance: r.importance,
+        access_count: r.access_count,
+        promoted_at: now,
+        reason,
+      };
+
+      insertItem(db, {
+        id: itemId,
+        created_at: r.created_at,
+        source: r.source,
+        source_id: r.source_id,
+        title: r.title,
+        text: r.text,
+        tags: r.tags,
+        meta: JSON.stringify(meta),
+        entity_id: r.entity_id,
+        process_id: r.process_id,
+        session_id: r.session_id,
+      });
 
-function cosine(a: Float32Array, b: Float32Array): number {
+      if (!options?.keepStm) {
+        db.prepare('DELETE FROM stm_items WHERE id = ?').run(r.id);
+      }
+    }
+  });
+  tx();
+
+  return { dryRun, promoted, skipped };
+}
+
+/**
+ * Bump access_count / last_accessed_at for items returned to a caller.
+ */
+export function recordAccess(
+  db: Database.Database,
+  scope: 'stm' | 'ltm',
+  ids: string[],
+  now = Date.now()
+): void {
+  if (ids.length === 0) return;
+  const table = scope === 'stm' ? 'stm_items' : 'items';
+  const bump = db.prepare(
+    `UPDATE ${table} SET access_count = access_count + 1, last_accessed_at = ? WHERE id = ?`
+  );
+  const tx = db.transaction(() => {
+    for (const id of ids) bump.run(now, id);
+  });
+  tx();
+}
+
+/**
+ * Most frequently accessed items (long-term or short-term), most used first.
+ */
+export function getMostAccessed(
+  db: Database.Database,
+  scope: 'stm' | 'ltm' = 'ltm',
+  limit = 20
+): Array<{ id: string; title: string | null; access_count: number; last_accessed_at: number | null }> {
+  const table = scope === 'stm' ? 'stm_items' : 'items';
+  return db
+    .prepare(
+      `SELECT id, title, access_count, last_accessed_at
+       FROM ${table}
+       WHERE access_count > 0
+       ORDER BY access_count DESC, last_accessed_at DESC
+       LIMIT ?`
+    )
+    .all(limit) as any[];
+}
+
+/**
+ * Extra SELECT columns for snippet()/highlight() on an FTS table whose `text` column is #1.
+ * snippet() picks the best column (-1), so title/tag-only matches still show why they matched.
+ */
+function highlightColumns(fts: string, h: HighlightOpts | undefined): { sql: string; params: unknown[] } {
+  if (!h?.snippet && !h?.highlight) return { sql: '', params: [] };
+  const open = h.open ?? '**';
+  const close = h.close ?? '**';
+  const cols: string[] = [];
+  const params: unknown[] = [];
+  if (h.snippet) {
+    cols.push(`snippet(${fts}, -1, ?, ?, ?, ?) AS snippet`);
+    params.push(open, close, h.ellipsis ?? '…', Math.max(1, Math.min(64, Math.floor(h.tokens ?? 16))));
+  }
+  if (h.highlight) {
+    cols.push(`highlight(${fts}, 1, ?, ?) AS highlight`);
+    params.push(open, close);
+  }
+  return { sql: `, ${cols.join(', ')}`, params };
+}
+
+function highlightFields(r: any): { snippet?: string; highlight?: string } {
+  return {
+    ...(r.snippet != null ? { snippet: String(r.snippet) } : {}),
+    ...(r.highlight != null ? { highlight: String(r.highlight) } : {}),
+  };
+}
+
+export function lexicalSearch(
+  db: Database.Database,
+  query: string,
+  limit = 10,
+  opts?: { trackAccess?: boolean; now?: number; filter?: FilterOpts; highlight?: HighlightOpts }
+): LexicalResult[] {
+  const where = filterToSql(opts?.filter, 'i');
+  const marks = highlightColumns('items_fts', opts?.highlight);
+  const rows = runFtsMatch(query, () => db
+    .prepare(
+      `
+      SELECT
+        i.id,
+        i.created_at,
+        i.source,
+        i.source_id,
+        i.title,
+        i.text,
+        i.tags,
+        i.meta,
+        i.entity_id,
+        i.process_id,
+        i.session_id,
+        bm25(items_fts) AS bm25${marks.sql}
+      FROM items_fts
+      JOIN items i ON i.rowid = items_fts.rowid
+      WHERE items_fts MATCH ?${where.sql ? ` AND ${where.sql}` : ''}
+      ORDER BY bm25 ASC
+      LIMIT ?
+    `
+    )
+    .all(...marks.params, query, ...where.params, limit)) as any[];
+
+  const results: LexicalResult[] = rows.map((r) => ({
+    item: {
+      id: r.id,
+      created_at: r.created_at,
+      source: r.source,
+      source_id: r.source_id,
+      title: r.title,
+      text: r.text,
+      tags: r.tags,
+      meta: r.meta,
+      entity_id: r.entity_id,
+      process_id: r.process_id,
+      session_id: r.session_id,
+    },
+    // bm25: lower is better; flip sign so higher is better
+    lexicalScore: -Number(r.bm25),
+    ...highlightFields(r),
+  }));
+
+  if (opts?.trackAccess !== false) {
+    recordAccess(db, 'ltm', results.map((r) => r.item.id), opts?.now);
+  }
+  return results;
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
   if (a.length !== b.length) throw new Error(`cosine: length mismatch ${a.length} vs ${b.length}`);
   let dot = 0;
   let na = 0;
@@ -590,150 +1494,520 @@ function cosine(a: Float32Array, b: Float32Array): number {
   return denom === 0 ? 0 : dot / denom;
 }
 
-async function fetchEmbeddingOllama(
+type Embedding = { vector: Float32Array; dims: number; model: string };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * `value` if it is a finite number, else `fallback`: keeps NaN out of LIMIT clauses and size arithmetic.
+ */
+function finiteOr(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * POST one batch to an OpenAI-compatible /v1/embeddings endpoint.
+ * Retries with exponential backoff (or the server's Retry-After) on 429 and 5xx, each wait
+ * capped at `embeddingMaxRetryDelayMs`;
+ * other errors, including network failures, are thrown right away.
+ * Vectors are returned in input order, using `data[i].index` when the server provides it.
+ */
+async function postEmbeddings(
   cfg: MemConfig,
-  input: string
-): Promise<{ vector: Float32Array; dims: number; model: string }> {
-  const baseUrl = cfg.ollamaBaseUrl ?? 'http://127.0.0.1:11434';
-  const model = cfg.embeddingModel ?? 'bge-m3';
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  model: string,
+  inputs: string[]
+): Promise<Float32Array[]> {
   const timeoutMs = cfg.ollamaTimeoutMs ?? 3000;
+  const maxRetries = Math.max(0, cfg.embeddingMaxRetries ?? 2);
+  const baseDelayMs = Math.max(0, cfg.embeddingRetryBaseMs ?? 250);
+  const maxDelayMs = Math.max(0, cfg.embeddingMaxRetryDelayMs ?? 5000);
+
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      // A single input is sent as a plain string, as before batching existed.
+      body: JSON.stringify({ model, input: inputs.length === 1 ? inputs[0] : inputs }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!res.ok) {
+      if ((res.status === 429 || res.status >= 500) && attempt < maxRetries) {
+        const retryAfter = Number(res.headers?.get?.('retry-after'));
+        // A server asking for minutes (or hours) must not stall a search or a backfill.
+        await sleep(Math.min(maxDelayMs, retryAfter > 0 ? retryAfter * 1000 : baseDelayMs * 2 ** attempt));
+        continue;
+      }
+      const body = await res.text().catch(() => '');
+      throw new Error(`${label} embeddings failed: ${res.status} ${res.statusText} ${body}`);
+    }
 
-  const res = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/embeddings`, {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({ model, input }),
-    signal: AbortSignal.timeout(timeoutMs),
-  });
-
-  if (!res.ok) {
-    const body = await res.text().catch(() => '');
-    throw new Error(`Ollama embeddings failed: ${res.status} ${res.statusText} ${body}`);
+    const json = (await res.json()) as any;
+    const data = Array.isArray(json?.data) ? json.data : [];
+    const out = new Array<Float32Array | undefined>(inputs.length);
+    data.forEach((d: any, i: number) => {
+      const idx = typeof d?.index === 'number' ? d.index : i;
+      if (!Array.isArray(d?.embedding) || idx < 0 || idx >= inputs.length) return;
+      const vec = new Float32Array(d.embedding.length);
+      for (let j = 0; j < d.embedding.length; j++) vec[j] = Number(d.embedding[j]);
+      out[idx] = vec;
+    });
+
+    const missing = out.findIndex((v) => v === undefined);
+    if (missing !== -1) throw new Error(`${label} embeddings: missing data[${missing}].embedding`);
+    return out as Float32Array[];
   }
+}
 
-  const json = (await res.json()) as any;
-  const embedding = json?.data?.[0]?.embedding;
-  if (!Array.isArray(embedding)) throw new Error('Ollama embeddings: missing data[0].embedding');
+/**
+ * A source of embedding vectors. Built-ins: "ollama" (default), "openai" and "local";
+ * others (custom HTTP endpoints, llama.cpp server, test doubles) can be added with
+ * registerEmbeddingProvider and selected through `MemConfig.provider`.
+ */
+export type EmbeddingProvider = {
+  name: string;
+  // Model name vectors are stored under for this config (the key in the embeddings table).
+  model(cfg: MemConfig): string;
+  // One vector per input, in input order. Called with at most cfg.embeddingBatchSize inputs.
+  embed(cfg: MemConfig, inputs: string[]): Promise<Float32Array[]>;
+};
+
+const ollamaProvider: EmbeddingProvider = {
+  name: 'ollama',
+  model: (cfg) => cfg.embeddingModel ?? 'bge-m3',
+  embed(cfg, inputs) {
+    const baseUrl = cfg.ollamaBaseUrl ?? 'http://127.0.0.1:11434';
+    return postEmbeddings(
+      cfg,
+      'Ollama',
+      `${baseUrl.replace(/\/$/, '')}/v1/embeddings`,
+      { 'content-type': 'application/json' },
+      ollamaProvider.model(cfg),
+      inputs
+    );
+  },
+};
 
-  const vec = new Float32Array(embedding.length);
-  for (let i = 0; i < embedding.length; i++) vec[i] = Number(embedding[i]);
+const openaiProvider: EmbeddingProvider = {
+  name: 'openai',
+  model: (cfg) => cfg.openaiModel ?? (cfg.embeddingModel || 'text-embedding-3-small'),
+  async embed(cfg, inputs) {
+    const baseUrl = cfg.openaiBaseUrl ?? 'https://api.openai.com';
+    const apiKey = cfg.openaiApiKey;
+    if (!apiKey) {
+      throw new Error('OpenAI embeddings: missing openaiApiKey in MemConfig');
+    }
+
+    return postEmbeddings(
+      cfg,
+      'OpenAI',
+      `${baseUrl.replace(/\/$/, '')}/v1/embeddings`,
+      {
+        'content-type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      openaiProvider.model(cfg),
+      inputs
+    );
+  },
+};
+
+/**
+ * Deterministic, in-process embeddings: hashed character trigrams (per word, with
+ * boundary markers) plus whole words, signed feature hashing, L2-normalized.
+ * Far weaker than a neural model, but needs no service, so hybrid search works in
+ * fully offline installs and CI. Lowercased and accent-insensitive.
+ */
+const localProvider: EmbeddingProvider = {
+  name: 'local',
+  model: (cfg) => `local-ngram-${localDims(cfg)}`,
+  async embed(cfg, inputs) {
+    return inputs.map((text) => hashedNgramVector(text, localDims(cfg)));
+  },
+};
 
-  return { vector: vec, dims: vec.length, model };
+function localDims(cfg: MemConfig): number {
+  return Math.max(16, Math.floor(cfg.localEmbeddingDims ?? 256));
 }
 
-async function fetchEmbeddingOpenAI(
-  cfg: MemConfig,
-  input: string
-): Promise<{ vector: Float32Array; dims: number; model: string }> {
-  const baseUrl = cfg.openaiBaseUrl ?? 'https://api.openai.com';
-  const apiKey = cfg.openaiApiKey;
-  if (!apiKey) {
-    throw new Error('OpenAI embeddings: missing openaiApiKey in MemConfig');
+// 32-bit FNV-1a
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
   }
+  return h >>> 0;
+}
 
-  const model = cfg.openaiModel ?? (cfg.embeddingModel || 'text-embedding-3-small');
-  const timeoutMs = cfg.ollamaTimeoutMs ?? 3000;
-
-  const res = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/embeddings`, {
-    method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({ model, input }),
-    signal: AbortSignal.timeout(timeoutMs),
-  });
+function hashedNgramVector(text: string, dims: number): Float32Array {
+  const vec = new Float32Array(dims);
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  const add = (feature: string, weight: number) => {
+    const h = fnv1a(feature);
+    vec[h % dims] += (h & 0x80000000 ? -1 : 1) * weight;
+  };
 
-  if (!res.ok) {
-    const body = await res.text().catch(() => '');
-    throw new Error(`OpenAI embeddings failed: ${res.status} ${res.statusText} ${body}`);
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(padded.slice(i, i + 3), 0.5);
   }
 
-  const json = (await res.json()) as any;
-  const embedding = json?.data?.[0]?.embedding;
-  if (!Array.isArray(embedding)) throw new Error('OpenAI embeddings: missing data[0].embedding');
+  let norm = 0;
+  for (let i = 0; i < dims; i++) norm += vec[i]! * vec[i]!;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < dims; i++) vec[i]! /= norm;
+  return vec;
+}
 
-  const vec = new Float32Array(embedding.length);
-  for (let i = 0; i < embedding.length; i++) vec[i] = Number(embedding[i]);
+const embeddingProviders = new Map<string, EmbeddingProvider>(
+  [ollamaProvider, openaiProvider, localProvider].map((p) => [p.name, p])
+);
 
-  return { vector: vec, dims: vec.length, model };
+/**
+ * Register (or replace) an embedding provider under `provider.name`.
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProviders.set(provider.name, provider);
 }
 
-async function fetchEmbedding(
-  cfg: MemConfig,
-  input: string
-): Promise<{ vector: Float32Array; dims: number; model: string }> {
-  const provider = cfg.provider ?? 'ollama';
-  if (provider === 'openai') {
-    return fetchEmbeddingOpenAI(cfg, input);
+export function listEmbeddingProviders(): string[] {
+  return [...embeddingProviders.keys()];
+}
+
+function resolveEmbeddingProvider(cfg: MemConfig): EmbeddingProvider {
+  const name = cfg.provider ?? 'ollama';
+  const provider = embeddingProviders.get(name);
+  if (!provider) throw new Error(`Unknown embedding provider: ${name}`);
+  return provider;
+}
+
+/**
+ * Embed many inputs with the configured provider, `cfg.embeddingBatchSize` inputs per request.
+ * Results are in input order. Throws if any batch fails (after retries).
+ */
+export async function fetchEmbeddings(cfg: MemConfig, inputs: string[]): Promise<Embedding[]> {
+  const batchSize = Math.max(1, cfg.embeddingBatchSize ?? 32);
+  const provider = resolveEmbeddingProvider(cfg);
+  const model = provider.model(cfg);
+  const out: Embedding[] = [];
+  for (let i = 0; i < inputs.length; i += batchSize) {
+    const batch = inputs.slice(i, i + batchSize);
+    const vectors = await provider.embed(cfg, batch);
+    if (vectors.length !== batch.length) {
+      throw new Error(`Embedding provider ${provider.name} returned ${vectors.length} vectors for ${batch.length} inputs`);
+    }
+    for (const vector of vectors) out.push({ vector, dims: vector.length, model });
   }
-  // Default: Ollama
-  return fetchEmbeddingOllama(cfg, input);
+  return out;
+}
+
+async function fetchEmbedding(cfg: MemConfig, input: string): Promise<Embedding> {
+  return (await fetchEmbeddings(cfg, [input]))[0]!;
 }
 
-function vectorToBlob(vec: Float32Array): Buffer {
+function vectorToBlob(vec: Float32Array, format: EmbeddingFormat = 'f32'): Buffer {
+  if (format === 'f16') {
+    const h = quantizeF32ToF16(vec);
+    return Buffer.from(h.buffer, h.byteOffset, h.byteLength);
+  }
+  if (format === 'int8') {
+    // [Float32 scale][Int8 x dims]; value = int8 * scale
+    let maxAbs = 0;
+    for (let i = 0; i < vec.length; i++) maxAbs = Math.max(maxAbs, Math.abs(vec[i]!));
+    const scale = maxAbs / 127 || 1;
+    const buf = Buffer.alloc(4 + vec.length);
+    buf.writeFloatLE(scale, 0);
+    for (let i = 0; i < vec.length; i++) buf.writeInt8(Math.round(vec[i]! / scale), 4 + i);
+    return buf;
+  }
+  if (format !== 'f32') throw new Error(`Unknown embedding storage format: ${format}`);
   return Buffer.from(vec.buffer.slice(vec.byteOffset, vec.byteOffset + vec.byteLength));
 }
 
-function blobToVector(blob: Buffer): Float32Array {
+function blobToVector(blob: Buffer, format: string = 'f32'): Float32Array {
+  if (format === 'f16') {
+    // Copy: SQLite blobs are not guaranteed to be 2-byte aligned.
+    const bytes = blob.buffer.slice(blob.byteOffset, blob.byteOffset + (blob.byteLength & ~1));
+    return dequantizeF16ToF32(new Uint16Array(bytes));
+  }
+  if (format === 'int8') {
+    const scale = blob.readFloatLE(0);
+    const vec = new Float32Array(blob.byteLength - 4);
+    for (let i = 0; i < vec.length; i++) vec[i] = blob.readInt8(4 + i) * scale;
+    return vec;
+  }
   return new Float32Array(blob.buffer, blob.byteOffset, Math.floor(blob.byteLength / 4));
 }
 
+/**
+ * The model name the configured provider embeds with (and that vectors are stored under).
+ */
+export function embeddingModelName(cfg: MemConfig): string {
+  return resolveEmbeddingProvider(cfg).model(cfg);
+}
+
+function storeItemEmbedding(
+  db: Database.Database,
+  itemId: string,
+  emb: Embedding,
+  format: EmbeddingFormat = 'f32'
+): void {
+  db.prepare(
+    `INSERT INTO embeddings (item_id, model, dims, vector, updated_at, format)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(item_id, model) DO UPDATE SET
+       dims=excluded.dims,
+       vector=excluded.vector,
+       updated_at=excluded.updated_at,
+       format=excluded.format`
+  ).run(itemId, emb.model, emb.dims, vectorToBlob(emb.vector, format), Date.now(), format);
+  annAssign(db, itemId, emb);
+}
+
+/**
+ * Stored vectors of the given items for a model, keyed by item id.
+ */
+function loadItemEmbeddings(db: Database.Database, itemIds: string[], model: string): Map<string, Float32Array> {
+  const out = new Map<string, Float32Array>();
+  if (itemIds.length === 0) return out;
+  const rows = db
+    .prepare(`SELECT item_id, vector, format FROM embeddings WHERE model = ? AND item_id IN (${itemIds.map(() => '?').join(', ')})`)
+    .all(model, ...itemIds) as Array<{ item_id: string; vector: Buffer; format: string }>;
+  for (const r of rows) out.set(r.item_id, blobToVector(r.vector, r.format));
+  return out;
+}
+
+/**
+ * Models other than `model` that the given items have vectors for, keyed by item id.
+ */
+function otherModelEmbeddings(db: Database.Database, itemIds: string[], model: string): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  if (itemIds.length === 0) return out;
+  const rows = db
+    .prepare(`SELECT item_id, model FROM embeddings WHERE model != ? AND item_id IN (${itemIds.map(() => '?').join(', ')})`)
+    .all(model, ...itemIds) as Array<{ item_id: string; model: string }>;
+  for (const r of rows) out.set(r.item_id, [...(out.get(r.item_id) ?? []), r.model]);
+  return out;
+}
+
 async function getOrCreateItemEmbedding(
   db: Database.Database,
   cfg: MemConfig,
   itemId: string,
   text: string
-): Promise<{ vector: Float32Array; dims: number; model: string } | null> {
-  const model = cfg.embeddingModel ?? 'bge-m3';
+): Promise<Embedding | null> {
+  let model: string;
+  try {
+    model = embeddingModelName(cfg);
+  } catch {
+    return null; // unknown provider: same lexical-only degradation as an unreachable one
+  }
 
   const row = db
-    .prepare('SELECT model, dims, vector FROM embeddings WHERE item_id = ? AND model = ?')
+    .prepare('SELECT model, dims, vector, format FROM embeddings WHERE item_id = ? AND model = ?')
     .get(itemId, model) as any;
 
   if (row?.vector) {
-    return { model: row.model, dims: Number(row.dims), vector: blobToVector(row.vector as Buffer) };
+    return { model: row.model, dims: Number(row.dims), vector: blobToVector(row.vector as Buffer, row.format) };
   }
 
   // If Ollama is unavailable, degrade gracefully (no semantic score).
   try {
     const emb = await fetchEmbedding(cfg, text);
-    const blob = vectorToBlob(emb.vector);
-    db.prepare(
-      `INSERT INTO embeddings (item_id, model, dims, vector, updated_at)
-       VALUES (?, ?, ?, ?, ?)
-       ON CONFLICT(item_id) DO UPDATE SET
-         model=excluded.model,
-         dims=excluded.dims,
-         vector=excluded.vector,
-         updated_at=excluded.updated_at`
-    ).run(itemId, emb.model, emb.dims, blob, Date.now());
-
+    storeItemEmbedding(db, itemId, emb, cfg.embeddingStorage);
     return emb;
   } catch {
     return null;
   }
 }
 
+/**
+ * Like addItem, but also computes and stores the item's embedding right away.
+ * If the embeddings provider is unreachable, the item is still stored (lexical-only)
+ * and `embedding` is null; it can be backfilled later with embedMissing.
+ */
+export async function addItemWithEmbedding(
+  db: Database.Database,
+  cfg: MemConfig,
+  input: Omit<InsertItemInput, 'meta'> & { meta?: unknown },
+  opts?: { extractFacts?: boolean }
+): Promise<{ item: MemItem; embedding: { model: string; dims: number } | null }> {
+  const item = addItem(db, input, opts);
+  const emb = await getOrCreateItemEmbedding(db, cfg, item.id, item.text);
+  return { item, embedding: emb ? { model: emb.model, dims: emb.dims } : null };
+}
+
+export type EmbedProgress = {
+  total: number;    // Items to embed when the run started
+  done: number;     // Items processed so far (embedded + failed)
+  embedded: number;
+  failed: number;
+};
+
+export type EmbedMissingResult = EmbedProgress & {
+  model: string;
+  aborted: boolean; // Stopped early because a whole batch failed (provider unreachable)
+  error?: string;
+};
+
+/**
+ * Backfill embeddings for every item that has none for the model.
+ * Items are read by rowid and sent as batched requests of `batchSize` inputs,
+ * with up to `concurrency` requests in flight; each batch is stored as soon as it
+ * arrives, so an interrupted run simply resumes where it left off. With `force`,
+ * all items are re-embedded. Stops early if every request of a round fails.
+ */
+export async function embedMissing(
+  db: Database.Database,
+  cfg: MemConfig,
+  opts?: {
+    batchSize?: number;   // inputs per request, default 32
+    concurrency?: number; // default 4
+    model?: string;       // overrides the model from cfg
+    force?: boolean;
+    chunks?: boolean;     // embed item chunks (see chunkItem) instead of whole items
+    onProgress?: (p: EmbedProgress) => void;
+  }
+): Promise<EmbedMissingResult> {
+  const batchSize = Math.max(1, Math.floor(finiteOr(opts?.batchSize, 32)));
+  const concurrency = Math.max(1, Math.floor(finiteOr(opts?.concurrency, 4)));
+  const runCfg: MemConfig = opts?.model
+    ? { ...cfg, embeddingModel: opts.model, openaiModel: (cfg.provider ?? 'ollama') === 'openai' ? opts.model : cfg.openaiModel }
+    : cfg;
+  const model = embeddingModelName(runCfg);
+  const force = opts?.force ?? false;
+
+  const t = opts?.chunks
+    ? { table: 'item_chunks', embeddings: 'chunk_embeddings', key: 'chunk_id', store: storeChunkEmbedding }
+    : { table: 'items', embeddings: 'embeddings', key: 'item_id', store: storeItemEmbedding };
+  const missingSql = force
+    ? `FROM ${t.table} i WHERE i.rowid > ?`
+    : `FROM ${t.table} i
+       LEFT JOIN ${t.embeddings} e ON e.${t.key} = i.id AND e.model = ?
+       WHERE e.${t.key} IS NULL AND i.rowid > ?`;
+  const countArgs = force ? [0] : [model, 0];
+  const totalRow = db.prepare(`SELECT COUNT(*) as count ${missingSql}`).get(...countArgs) as { count: number };
+
+  const progress: EmbedProgress = { total: totalRow?.count ?? 0, done: 0, embedded: 0, failed: 0 };
+  const page = db.prepare(`SELECT i.rowid AS rid, i.id, i.text ${missingSql} ORDER BY i.rowid LIMIT ?`);
+  const batchCfg: MemConfig = { ...runCfg, embeddingBatchSize: batchSize };
+  const storeBatch = db.transaction((rows: Array<{ id: string }>, embs: Embedding[]) => {
+    rows.forEach((row, i) => t.store(db, row.id, embs[i]!, runCfg.embeddingStorage));
+  });
+
+  let cursor = 0;
+  let aborted = false;
+  let lastError: string | undefined;
+
+  while (true) {
+    const rows = page.all(...(force ? [cursor] : [model, cursor]), batchSize * concurrency) as Array<{ rid: number; id: string; text: string }>;
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1]!.rid;
+
+    const batches: Array<typeof rows> = [];
+    for (let i = 0; i < rows.length; i += batchSize) batches.push(rows.slice(i, i + batchSize));
+
+    let next = 0;
+    let batchesFailed = 0;
+    const worker = async () => {
+      while (next < batches.length) {
+        const batch = batches[next++]!;
+        try {
+          const embs = await fetchEmbeddings(batchCfg, batch.map((r) => r.text));
+          storeBatch(batch, embs);
+          progress.embedded += batch.length;
+        } catch (e: any) {
+          progress.failed += batch.length;
+          batchesFailed++;
+          lastError = String(e?.message ?? e);
+        }
+        progress.done += batch.length;
+        opts?.onProgress?.({ ...progress });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+    if (batchesFailed === batches.length) {
+      aborted = true;
+      break;
+    }
+  }
+
+  return { ...progress, model, aborted, ...(lastError ? { error: lastError } : {}) };
+}
+
+/**
+ * Lexical hits + recents (+ ANN neighbours) re-scored with the query embedding.
+ * The return type stays a plain result array: non-fatal problems (stale or other-model
+ * vectors, embedding failures) are reported through `onWarning`, and the CLI / MCP
+ * server put them in their payload's `warnings` field.
+ */
 export async function hybridSearch(
   db: Database.Database,
   cfg: MemConfig,
   query: string,
-  opts?: { topK?: number; candidates?: number; semanticWeight?: number }
+  opts?: {
+    topK?: number;
+    candidates?: number;
+    semanticWeight?: number;
+    trackAccess?: boolean;
+    filter?: FilterOpts;
+    since?: number; // Shorthand for filter.since
+    until?: number; // Shorthand for filter.until
+    // 'linear' (default): min-max normalized bm25 blended with cosine via semanticWeight.
+    // 'rrf': Reciprocal Rank Fusion, sum of weight / (rrfK + rank) over each component.
+    fusion?: FusionStrategy;
+    rrfK?: number; // default 60
+    ann?: boolean;   // Add ANN neighbours to the candidates when an index exists (default true)
+    nprobe?: number; // ANN lists to scan (default 8)
+    // Candidates whose stored vector has other dims than the query, or that only have vectors
+    // from other models: 'reembed' (default) with the active model, or 'skip' (no semantic score).
+    staleEmbeddings?: 'reembed' | 'skip';
+    // Text to embed when `query` is a compiled FTS expression (buildFtsQuery); default: query.
+    semanticQuery?: string;
+    onWarning?: (w: SearchWarning) => void;
+    highlight?: HighlightOpts; // snippet/highlight for lexical hits
+  } & RecencyOpts
 ): Promise<HybridResult[]> {
   const topK = opts?.topK ?? 10;
   const candidates = opts?.candidates ?? Math.max(50, topK);
   const w = opts?.semanticWeight ?? 0.7;
-
-  // Candidates: lexical hits + recents (merged).
-  const lexHits = lexicalSearch(db, query, candidates);
+  const fusion = opts?.fusion ?? 'linear';
+  const rrfK = opts?.rrfK ?? 60;
+  const now = opts?.now ?? Date.now();
+  const halfLife = opts?.recencyHalfLifeMs ?? 0;
+  const rw = halfLife > 0 ? (opts?.recencyWeight ?? 0.2) : 0;
+
+  const filter: FilterOpts | undefined =
+    opts?.since !== undefined || opts?.until !== undefined
+      ? { ...opts?.filter, since: opts?.since ?? opts?.filter?.since, until: opts?.until ?? opts?.filter?.until }
+      : opts?.filter;
+
+  // Candidates: lexical hits + recents (merged), both restricted by the filter in SQL.
+  const lexHits = lexicalSearch(db, query, candidates, { trackAccess: false, filter, highlight: opts?.highlight });
+  const where = filterToSql(filter, 'i');
   const recentRows = db
     .prepare(
       `SELECT id, created_at, source, source_id, title, text, tags, meta, entity_id, process_id, session_id
-       FROM items
+       FROM items i
+       ${where.sql ? `WHERE ${where.sql}` : ''}
        ORDER BY created_at DESC
        LIMIT ?`
     )
-    .all(candidates) as any[];
+    .all(...where.params, candidates) as any[];
 
   const recent: LexicalResult[] = recentRows.map((r) => ({
     item: {
@@ -763,33 +2037,336 @@ export async function hybridSearch(
   let lex = merged;
   if (lex.length === 0) return [];
 
-  let queryEmb: { vector: Float32Array; dims: number; model: string } | null = null;
+  let queryEmb: Embedding | null = null;
   try {
-    queryEmb = await fetchEmbedding(cfg, query);
-  } catch {
+    queryEmb = await fetchEmbedding(cfg, opts?.semanticQuery ?? query);
+  } catch (e: any) {
     // Ollama unreachable => lexical-only results.
-    return lex.slice(0, topK).map((r) => ({ ...r, semanticScore: null, score: r.lexicalScore }));
+    opts?.onWarning?.({
+      code: 'embedding_unavailable',
+      message: `Query embedding failed, lexical-only results: ${String(e?.message ?? e)}`,
+    });
+    let lexOnly: HybridResult[];
+    if (fusion === 'rrf') {
+      lexOnly = fuseRrf(lex.map((r) => ({ ...r, semanticScore: null })), { w, rw, rrfK, halfLife, now }).slice(0, topK);
+    } else {
+      const lexicalRanks = rankBy(lex, (r) => (r.lexicalScore !== 0 ? r.lexicalScore : null));
+      lexOnly = rw > 0
+        ? rankWithRecency(lex, { recencyHalfLifeMs: halfLife, recencyWeight: rw, now }).slice(0, topK)
+        : lex.slice(0, topK).map((r) => ({ ...r, semanticScore: null, score: r.lexicalScore }));
+      lexOnly = lexOnly.map((r) => ({ ...r, lexicalRank: lexicalRanks.get(r.item.id) ?? null, semanticRank: null }));
+    }
+    if (opts?.trackAccess !== false) recordAccess(db, 'ltm', lexOnly.map((r) => r.item.id));
+    return lexOnly;
   }
 
-  const lexScores = lex.map((r) => r.lexicalScore);
-  const minLex = Math.min(...lexScores);
-  const maxLex = Math.max(...lexScores);
-  const denomLex = maxLex - minLex || 1;
+  // With an ANN index, nearest neighbours join the candidates too (even without keyword overlap).
+  const annLists = opts?.ann === false ? null : annProbeLists(db, queryEmb, opts?.nprobe ?? 8);
+  if (annLists) {
+    for (const { row: r } of scanEmbeddings(db, queryEmb, { topK: candidates, filter, lists: annLists })) {
+      if (seen.has(r.id)) continue;
+      seen.add(r.id);
+      lex.push({
+        item: {
+          id: r.id,
+          created_at: r.created_at,
+          source: r.source,
+          source_id: r.source_id,
+          title: r.title,
+          text: r.text,
+          tags: r.tags,
+          meta: r.meta,
+          entity_id: r.entity_id,
+          process_id: r.process_id,
+          session_id: r.session_id,
+        },
+        lexicalScore: 0,
+      });
+    }
+  }
 
-  const out: HybridResult[] = [];
-  for (const r of lex) {
-    const itemEmb = await getOrCreateItemEmbedding(db, cfg, r.item.id, r.item.text);
-    const sem = itemEmb ? cosine(queryEmb.vector, itemEmb.vector) : null;
+  // Reuse stored vectors; embed the remaining candidates in batched requests.
+  const model = queryEmb.model;
+  const staleMode = opts?.staleEmbeddings ?? 'reembed';
+  const itemEmbs = loadItemEmbeddings(db, lex.map((r) => r.item.id), model);
+
+  // Same model name, other dims (e.g. the model's output size was reconfigured).
+  const stale = new Set([...itemEmbs].filter(([, v]) => v.length !== queryEmb!.dims).map(([id]) => id));
+  for (const id of stale) itemEmbs.delete(id);
+  if (stale.size > 0) {
+    opts?.onWarning?.({
+      code: 'embedding_dims_mismatch',
+      message: `${stale.size} stored vector(s) for ${model} do not have the query's ${queryEmb.dims} dims; ${staleMode === 'skip' ? 'skipped' : 're-embedded'}`,
+      count: stale.size,
+    });
+  }
 
-    const lexNorm = (r.lexicalScore - minLex) / denomLex; // 0..1
-    const semNorm = sem === null ? 0 : (sem + 1) / 2; // -1..1 => 0..1
-    const score = (1 - w) * lexNorm + w * semNorm;
+  // No vector for the active model, but some from other models (DB populated with another model).
+  let missing = lex.filter((r) => !itemEmbs.has(r.item.id));
+  const otherModel = otherModelEmbeddings(db, missing.filter((r) => !stale.has(r.item.id)).map((r) => r.item.id), model);
+  if (otherModel.size > 0) {
+    opts?.onWarning?.({
+      code: 'embedding_model_mismatch',
+      message: `${otherModel.size} candidate(s) only have vectors from other models; ${staleMode === 'skip' ? 'skipped' : `embedded with ${model}`} (run embed to backfill)`,
+      count: otherModel.size,
+      models: [...new Set([...otherModel.values()].flat())].sort(),
+    });
+  }
+  if (staleMode === 'skip') {
+    missing = missing.filter((r) => !stale.has(r.item.id) && !otherModel.has(r.item.id));
+  }
 
-    out.push({ ...r, semanticScore: sem, score });
+  if (missing.length > 0) {
+    try {
+      const embs = await fetchEmbeddings(cfg, missing.map((r) => r.item.text));
+      db.transaction(() => {
+        missing.forEach((r, i) => {
+          storeItemEmbedding(db, r.item.id, embs[i]!, cfg.embeddingStorage);
+          itemEmbs.set(r.item.id, embs[i]!.vector);
+        });
+      })();
+    } catch (e: any) {
+      // Provider failed mid-way => those candidates just get no semantic score.
+      opts?.onWarning?.({
+        code: 'embedding_failed',
+        message: `Embedding ${missing.length} candidate(s) failed, scored without semantics: ${String(e?.message ?? e)}`,
+        count: missing.length,
+      });
+    }
   }
 
-  out.sort((a, b) => b.score - a.score);
-  return out.slice(0, topK);
+  const queryVec = queryEmb.vector;
+  const withSem: Array<LexicalResult & { semanticScore: number | null }> = lex.map((r) => {
+    const vec = itemEmbs.get(r.item.id);
+    return { ...r, semanticScore: vec && vec.length === queryVec.length ? cosine(queryVec, vec) : null };
+  });
+
+  let out: HybridResult[];
+  if (fusion === 'rrf') {
+    out = fuseRrf(withSem, { w, rw, rrfK, halfLife, now });
+  } else {
+    const lexScores = lex.map((r) => r.lexicalScore);
+    const minLex = Math.min(...lexScores);
+    const maxLex = Math.max(...lexScores);
+    const denomLex = maxLex - minLex || 1;
+
+    const lexicalRanks = rankBy(withSem, (r) => (r.lexicalScore !== 0 ? r.lexicalScore : null));
+    const semanticRanks = rankBy(withSem, (r) => r.semanticScore);
+
+    out = [];
+    for (const r of withSem) {
+      const sem = r.semanticScore;
+      const lexNorm = (r.lexicalScore - minLex) / denomLex; // 0..1
+      const semNorm = sem === null ? 0 : (sem + 1) / 2; // -1..1 => 0..1
+      const base = (1 - w) * lexNorm + w * semNorm;
+      const ranks = {
+        lexicalRank: lexicalRanks.get(r.item.id) ?? null,
+        semanticRank: semanticRanks.get(r.item.id) ?? null,
+      };
+
+      if (rw > 0) {
+        const rec = recencyDecay(r.item.created_at, now, halfLife);
+        out.push({ ...r, ...ranks, recencyScore: rec, score: (1 - rw) * base + rw * rec });
+      } else {
+        out.push({ ...r, ...ranks, score: base });
+      }
+    }
+    out.sort((a, b) => b.score - a.score);
+  }
+
+  const top = out.slice(0, topK);
+  if (opts?.trackAccess !== false) recordAccess(db, 'ltm', top.map((r) => r.item.id));
+  return top;
+}
+
+/**
+ * 1-based ranks by descending value; entries whose value is null are left unranked.
+ */
+function rankBy<T extends LexicalResult>(rows: T[], value: (r: T) => number | null): Map<string, number> {
+  const ranked = rows
+    .map((r) => ({ id: r.item.id, v: value(r) }))
+    .filter((x): x is { id: string; v: number } => x.v !== null)
+    .sort((a, b) => b.v - a.v);
+  return new Map(ranked.map((x, i) => [x.id, i + 1]));
+}
+
+/**
+ * Reciprocal Rank Fusion over the lexical, semantic and (optional) recency rankings.
+ * Each component contributes weight / (k + rank); unranked components contribute 0.
+ * Rank-based, so it is stable when bm25 scores are degenerate (one hit, all zeros).
+ */
+function fuseRrf(
+  rows: Array<LexicalResult & { semanticScore: number | null }>,
+  o: { w: number; rw: number; rrfK: number; halfLife: number; now: number }
+): HybridResult[] {
+  const lexicalRanks = rankBy(rows, (r) => (r.lexicalScore !== 0 ? r.lexicalScore : null));
+  const semanticRanks = rankBy(rows, (r) => r.semanticScore);
+  const recencyRanks = o.rw > 0 ? rankBy(rows, (r) => r.item.created_at) : new Map<string, number>();
+
+  const rrf = (rank: number | null) => (rank === null ? 0 : 1 / (o.rrfK + rank));
+
+  return rows
+    .map((r) => {
+      const lexicalRank = lexicalRanks.get(r.item.id) ?? null;
+      const semanticRank = semanticRanks.get(r.item.id) ?? null;
+      const score =
+        (1 - o.rw) * ((1 - o.w) * rrf(lexicalRank) + o.w * rrf(semanticRank));
+
+      if (o.rw > 0) {
+        const recencyRank = recencyRanks.get(r.item.id) ?? null;
+        return {
+          ...r,
+          lexicalRank,
+          semanticRank,
+          recencyRank,
+          recencyScore: recencyDecay(r.item.created_at, o.now, o.halfLife),
+          score: score + o.rw * rrf(recencyRank),
+        };
+      }
+      return { ...r, lexicalRank, semanticRank, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pure vector search: scores every stored embedding of the query's model (not just
+ * lexical hits + recents), so memories with no keyword overlap can still be found.
+ * Items without an embedding for the model are invisible here; backfill them first.
+ * When an ANN index exists for the model (buildAnnIndex), only the `nprobe` closest
+ * lists are scanned; pass `ann: false` for an exact scan.
+ * If the query embedding cannot be computed, falls back to lexical results and reports
+ * an 'embedding_unavailable' warning through `onWarning`.
+ */
+export async function semanticSearch(
+  db: Database.Database,
+  cfg: MemConfig,
+  query: string,
+  opts?: {
+    topK?: number;
+    minScore?: number; // Drop results with cosine below this
+    filter?: FilterOpts;
+    trackAccess?: boolean;
+    ann?: boolean;   // Use the ANN index when one exists (default true)
+    nprobe?: number; // ANN lists to scan (default 8)
+    onWarning?: (w: SearchWarning) => void;
+  }
+): Promise<HybridResult[]> {
+  const topK = opts?.topK ?? 10;
+  const minScore = opts?.minScore ?? -1;
+
+  let queryEmb: Embedding;
+  try {
+    queryEmb = await fetchEmbedding(cfg, query);
+  } catch (e: any) {
+    // Provider unreachable => lexical-only results.
+    opts?.onWarning?.({
+      code: 'embedding_unavailable',
+      message: `Query embedding failed, lexical-only results: ${String(e?.message ?? e)}`,
+    });
+    return lexicalSearch(db, escapeFts5Query(query), topK, {
+      filter: opts?.filter,
+      trackAccess: opts?.trackAccess,
+    }).map((r, i) => ({ ...r, semanticScore: null, score: r.lexicalScore, lexicalRank: i + 1, semanticRank: null }));
+  }
+
+  const lists = opts?.ann === false ? null : annProbeLists(db, queryEmb, opts?.nprobe ?? 8);
+  const top = scanEmbeddings(db, queryEmb, { topK, minScore, filter: opts?.filter, lists });
+
+  const results: HybridResult[] = top.map(({ row: r, sem }, i) => ({
+    item: {
+      id: r.id,
+      created_at: r.created_at,
+      source: r.source,
+      source_id: r.source_id,
+      title: r.title,
+      text: r.text,
+      tags: r.tags,
+      meta: r.meta,
+      entity_id: r.entity_id,
+      process_id: r.process_id,
+      session_id: r.session_id,
+    },
+    lexicalScore: 0,
+    semanticScore: sem,
+    score: sem,
+    lexicalRank: null,
+    semanticRank: i + 1,
+  }));
+
+  if (opts?.trackAccess !== false) recordAccess(db, 'ltm', results.map((r) => r.item.id));
+  return results;
+}
+
+/**
+ * Stream the stored vectors of the query's model (restricted to the given ANN lists, if any)
+ * and keep a sorted top-K, so memory stays bounded on big stores.
+ */
+function scanEmbeddings(
+  db: Database.Database,
+  queryEmb: Embedding,
+  o: { topK: number; minScore?: number; filter?: FilterOpts; lists?: number[] | null }
+): Array<{ row: any; sem: number; vector: Float32Array }> {
+  const minScore = o.minScore ?? -1;
+  const where = filterToSql(o.filter, 'i');
+  const annJoin = o.lists
+    ? `JOIN ann_assignments a ON a.item_id = e.item_id AND a.model = e.model
+         AND a.list_id IN (${o.lists.map(() => '?').join(', ')})`
+    : '';
+  const stmt = db.prepare(
+    `SELECT e.vector, e.format,
+            i.id, i.created_at, i.source, i.source_id, i.title, i.text, i.tags, i.meta,
+            i.entity_id, i.process_id, i.session_id
+     FROM embeddings e
+     ${annJoin}
+     JOIN items i ON i.id = e.item_id
+     WHERE e.model = ? AND e.dims = ?${where.sql ? ` AND ${where.sql}` : ''}`
+  );
+
+  const top: Array<{ row: any; sem: number; vector: Float32Array }> = [];
+  const params = [...(o.lists ?? []), queryEmb.model, queryEmb.dims, ...where.params];
+  for (const row of stmt.iterate(...params) as Iterable<any>) {
+    const vector = blobToVector(row.vector as Buffer, row.format);
+    const sem = cosine(queryEmb.vector, vector);
+    if (sem < minScore) continue;
+    if (top.length === o.topK && sem <= top[top.length - 1]!.sem) continue;
+    let i = top.length;
+    while (i > 0 && top[i - 1]!.sem < sem) i--;
+    top.splice(i, 0, { row, sem, vector });
+    if (top.length > o.topK) top.pop();
+  }
+  return top;
+}
+
+/**
+ * Exponential time decay: 1 for a brand new item, 0.5 after one half-life, etc.
+ */
+export function recencyDecay(createdAt: number, now: number, halfLifeMs: number): number {
+  if (!(halfLifeMs > 0)) return 1;
+  return Math.pow(0.5, Math.max(0, now - createdAt) / halfLifeMs);
+}
+
+/**
+ * Re-rank lexical results by blending min-max normalized bm25 with a recency term.
+ * Used for lexical-only recall (and the hybrid fallback) when recency scoring is on.
+ */
+export function rankWithRecency(results: LexicalResult[], opts: RecencyOpts): HybridResult[] {
+  if (results.length === 0) return [];
+  const now = opts.now ?? Date.now();
+  const halfLife = opts.recencyHalfLifeMs ?? 0;
+  const rw = halfLife > 0 ? (opts.recencyWeight ?? 0.2) : 0;
+
+  const lexScores = results.map((r) => r.lexicalScore);
+  const minLex = Math.min(...lexScores);
+  const maxLex = Math.max(...lexScores);
+  const denomLex = maxLex - minLex || 1;
+
+  return results
+    .map((r) => {
+      const lexNorm = (r.lexicalScore - minLex) / denomLex;
+      const rec = recencyDecay(r.item.created_at, now, halfLife);
+      return { ...r, semanticScore: null, recencyScore: rec, score: (1 - rw) * lexNorm + rw * rec };
+    })
+    .sort((a, b) => b.score - a.score);
 }
 
 // ============================================================================
@@ -800,22 +2377,80 @@ export type FilterOpts = {
   entity_id?: string | null;
   process_id?: string | null;
   session_id?: string | null;
+  source?: string | null;
+  tags?: string | string[];  // Item must carry every listed tag (comma-separated tags column)
+  since?: number;            // created_at >= since (epoch ms)
+  until?: number;            // created_at < until (epoch ms)
 };
 
+function splitTags(tags: string | string[]): string[] {
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  return list.map(t => t.replace(/\s+/g, '').toLowerCase()).filter(Boolean);
+}
+
 /**
  * Filter hybrid search results by attribution/session fields.
  */
 export function filterResults(results: HybridResult[], opts: FilterOpts): HybridResult[] {
+  const wanted = opts.tags !== undefined ? splitTags(opts.tags) : [];
   return results.filter(r => {
     if (opts.entity_id !== undefined && r.item.entity_id !== opts.entity_id) return false;
     if (opts.process_id !== undefined && r.item.process_id !== opts.process_id) return false;
     if (opts.session_id !== undefined && r.item.session_id !== opts.session_id) return false;
+    if (opts.source !== undefined && r.item.source !== opts.source) return false;
+    if (opts.since !== undefined && r.item.created_at < opts.since) return false;
+    if (opts.until !== undefined && r.item.created_at >= opts.until) return false;
+    if (wanted.length > 0) {
+      const have = new Set(splitTags(r.item.tags ?? ''));
+      if (!wanted.every(t => have.has(t))) return false;
+    }
     return true;
   });
 }
 
 /**
- * Hybrid search with built-in filtering (more efficient than filter + hybridSearch).
+ * Translate a filter into a SQL condition over the items table (aliased as `alias`),
+ * so candidate queries return full pages instead of being post-filtered.
+ */
+function filterToSql(filter: FilterOpts | undefined, alias: string): { sql: string; params: unknown[] } {
+  if (!filter) return { sql: '', params: [] };
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  for (const col of ['entity_id', 'process_id', 'session_id', 'source'] as const) {
+    const value = filter[col];
+    if (value === undefined) continue;
+    if (value === null) {
+      clauses.push(`${alias}.${col} IS NULL`);
+    } else {
+      clauses.push(`${alias}.${col} = ?`);
+      params.push(value);
+    }
+  }
+
+  if (filter.since !== undefined) {
+    clauses.push(`${alias}.created_at >= ?`);
+    params.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    clauses.push(`${alias}.created_at < ?`);
+    params.push(filter.until);
+  }
+
+  if (filter.tags !== undefined) {
+    // Normalize "a, b,c" to ",a,b,c," and look for ",tag,".
+    for (const tag of splitTags(filter.tags)) {
+      clauses.push(`instr(',' || replace(lower(coalesce(${alias}.tags, '')), ' ', '') || ',', ?) > 0`);
+      params.push(`,${tag},`);
+    }
+  }
+
+  return { sql: clauses.join(' AND '), params };
+}
+
+/**
+ * Hybrid search with built-in filtering: the filter is applied inside the candidate
+ * queries, so filtered searches still return up to `topK` results.
  */
 export async function hybridSearchFiltered(
   db: Database.Database,
@@ -826,11 +2461,20 @@ export async function hybridSearchFiltered(
     candidates?: number;
     semanticWeight?: number;
     filter?: FilterOpts;
-  }
+    trackAccess?: boolean;
+    since?: number;
+    until?: number;
+    fusion?: FusionStrategy;
+    rrfK?: number;
+    ann?: boolean;
+    nprobe?: number;
+    staleEmbeddings?: 'reembed' | 'skip';
+    semanticQuery?: string;
+    onWarning?: (w: SearchWarning) => void;
+    highlight?: HighlightOpts;
+  } & RecencyOpts
 ): Promise<HybridResult[]> {
-  const results = await hybridSearch(db, cfg, query, opts);
-  if (!opts?.filter) return results;
-  return filterResults(results, opts.filter);
+  return hybridSearch(db, cfg, query, opts);
 }
 
 /**
@@ -957,42 +2601,313 @@ export function listSessions(db: Database.Database): string[] {
 // ============================================================================
 
 /**
- * Insert a new fact into the database.
+ * NFC, trimmed, inner whitespace collapsed, lowercased.
+ */
+function normalizeFactPart(v: string): string {
+  return v.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Dedup key of a triple: JSON array of the normalized parts (the subject is `$[0]` in SQL).
+ */
+function factTripleKey(subject: string, predicate: string, object: string): string {
+  return JSON.stringify([normalizeFactPart(subject), normalizeFactPart(predicate), normalizeFactPart(object)]);
+}
+
+/** Combine independent evidence: 1 - (1 - a)(1 - b). */
+function reinforceConfidence(a: number, b: number): number {
+  return 1 - (1 - a) * (1 - b);
+}
+
+/**
+ * Cardinality of a predicate: stored override, else DEFAULT_PREDICATE_CARDINALITY, else multi.
+ */
+export function getPredicateCardinality(db: Database.Database, predicate: string): PredicateCardinality {
+  const row = db.prepare(`SELECT cardinality FROM predicate_cardinality WHERE predicate = ?`).get(predicate) as
+    | { cardinality: PredicateCardinality }
+    | undefined;
+  return row?.cardinality ?? DEFAULT_PREDICATE_CARDINALITY[predicate] ?? 'multi';
+}
+
+/**
+ * Set a predicate's cardinality. Making it single-valued resolves existing contradictions:
+ * per subject, the most recent current value supersedes the older ones.
+ */
+export function setPredicateCardinality(
+  db: Database.Database,
+  predicate: string,
+  cardinality: PredicateCardinality
+): { predicate: string; cardinality: PredicateCardinality; superseded: number } {
+  if (cardinality !== 'single' && cardinality !== 'multi') {
+    throw new Error(`Invalid cardinality: ${String(cardinality)} (expected "single" or "multi")`);
+  }
+  return db.transaction(() => {
+    db.prepare(
+      `INSERT INTO predicate_cardinality (predicate, cardinality) VALUES (?, ?)
+       ON CONFLICT(predicate) DO UPDATE SET cardinality = excluded.cardinality`
+    ).run(predicate, cardinality);
+    let superseded = 0;
+    if (cardinality === 'single') {
+      // Subjects are grouped as dedup sees them ("Loïc" and " loïc" are one subject).
+      const current = db
+        .prepare(
+          `SELECT ${FACT_COLUMNS} FROM facts WHERE predicate = ? AND valid_to IS NULL
+           ORDER BY json_extract(triple_key, '$[0]'), COALESCE(valid_from, created_at) DESC, rowid DESC`
+        )
+        .all(predicate)
+        .map(rowToFact);
+      let latest: Fact | null = null;
+      for (const f of current) {
+        if (!latest || normalizeFactPart(latest.subject) !== normalizeFactPart(f.subject)) {
+          latest = f;
+          continue;
+        }
+        supersedeFact(db, f.id, latest);
+        superseded++;
+      }
+    }
+    return { predicate, cardinality, superseded };
+  })();
+}
+
+function supersedeFact(db: Database.Database, oldId: string, by: Fact): void {
+  db.prepare(`UPDATE facts SET valid_to = ?, superseded_by = ? WHERE id = ?`).run(by.valid_from ?? by.created_at, by.id, oldId);
+}
+
+/**
+ * Insert a new fact into the database (always a new row; see upsertFact to merge duplicates).
+ * For single-valued predicates the subject's timeline stays consistent: the value valid at the
+ * new valid_from is superseded by it, and the new fact is itself superseded by the next later
+ * value, if any (backfilled history).
  */
 export function insertFact(db: Database.Database, input: InsertFactInput): Fact {
-  const stmt = db.prepare(`
-    INSERT INTO facts (id, created_at, subject, predicate, object, confidence, source_item_id, entity_id)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `);
   const created_at = input.created_at ?? Date.now();
-  stmt.run(
-    input.id,
+  const fact: Fact = {
+    ...input,
     created_at,
-    input.subject,
-    input.predicate,
-    input.object,
-    input.confidence,
-    input.source_item_id ?? null,
-    input.entity_id ?? null
-  );
-  return { ...input, created_at };
+    valid_from: input.valid_from ?? created_at,
+    valid_to: input.valid_to ?? null,
+    superseded_by: null,
+    extractor: input.extractor ?? null,
+  };
+  const key = factTripleKey(input.subject, input.predicate, input.object);
+
+  db.transaction(() => {
+    const timeline = fact.valid_to === null && getPredicateCardinality(db, input.predicate) === 'single'
+      ? db
+          .prepare(
+            `SELECT ${FACT_COLUMNS} FROM facts
+             WHERE json_extract(triple_key, '$[0]') = ? AND predicate = ? AND COALESCE(triple_key, '') <> ?
+             ORDER BY COALESCE(valid_from, created_at) ASC, rowid ASC`
+          )
+          .all(normalizeFactPart(input.subject), input.predicate, key)
+          .map(rowToFact)
+      : [];
+    const from = fact.valid_from!;
+    const next = timeline.find(f => f.valid_from! > from);
+    const previous = timeline.filter(f => f.valid_from! <= from && (f.valid_to === null || f.valid_to! > from));
+    if (next) {
+      fact.valid_to = next.valid_from!;
+      fact.superseded_by = next.id;
+    }
+
+    db.prepare(`
+      INSERT INTO facts (id, created_at, subject, predicate, object, confidence, source_item_id, entity_id, triple_key,
+                         valid_from, valid_to, superseded_by, extractor)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      fact.id,
+      created_at,
+      fact.subject,
+      fact.predicate,
+      fact.object,
+      fact.confidence,
+      fact.source_item_id ?? null,
+      fact.entity_id ?? null,
+      key,
+      fact.valid_from,
+      fact.valid_to,
+      fact.superseded_by,
+      fact.extractor
+    );
+    for (const p of previous) supersedeFact(db, p.id, fact);
+    if (fact.source_item_id) {
+      db.prepare(`INSERT OR IGNORE INTO fact_sources (fact_id, item_id, confidence, added_at, extractor) VALUES (?, ?, ?, ?, ?)`)
+        .run(fact.id, fact.source_item_id, fact.confidence, created_at, fact.extractor);
+    }
+  })();
+  return fact;
 }
 
 /**
- * Get all facts about a specific subject.
+ * Ids of all memory items supporting a fact, oldest first.
  */
-export function getFactsBySubject(db: Database.Database, subject: string, limit = 100): Fact[] {
-  const rows = db
+export function getFactSourceIds(db: Database.Database, factId: string): string[] {
+  const ids = (db
+    .prepare(`SELECT item_id FROM fact_sources WHERE fact_id = ? ORDER BY added_at ASC, rowid ASC`)
+    .all(factId) as { item_id: string }[]).map(r => r.item_id);
+  // Facts stored before fact_sources existed only carry source_item_id.
+  const first = db.prepare(`SELECT source_item_id FROM facts WHERE id = ?`).get(factId) as { source_item_id: string | null } | undefined;
+  if (first?.source_item_id && !ids.includes(first.source_item_id)) ids.unshift(first.source_item_id);
+  return ids;
+}
+
+export type FactProvenance = {
+  fact: Fact;
+  extractor: string | null; // how the fact was first produced
+  sources: Array<{
+    item_id: string;
+    item: MemItem | null;     // null if the item no longer exists
+    confidence: number;       // confidence this source contributed
+    added_at: number;
+    extractor: string | null; // how the fact was read from this item
+  }>;
+};
+
+/**
+ * Trace a fact back to the memory items supporting it (oldest first) and how it was extracted.
+ * Returns null if the fact does not exist.
+ */
+export function getFactProvenance(db: Database.Database, factId: string): FactProvenance | null {
+  const row = db.prepare(`SELECT ${FACT_COLUMNS} FROM facts WHERE id = ?`).get(factId);
+  if (!row) return null;
+  const fact = rowToFact(row);
+  const sources = db
     .prepare(
-      `SELECT id, created_at, subject, predicate, object, confidence, source_item_id, entity_id
-       FROM facts
-       WHERE subject = ?
-       ORDER BY confidence DESC, created_at DESC
-       LIMIT ?`
+      `SELECT item_id, confidence, added_at, extractor FROM fact_sources
+       WHERE fact_id = ? ORDER BY added_at ASC, rowid ASC`
     )
-    .all(subject, limit) as any[];
+    .all(factId) as Array<{ item_id: string; confidence: number; added_at: number; extractor: string | null }>;
+  if (fact.source_item_id && !sources.some(s => s.item_id === fact.source_item_id)) {
+    sources.unshift({ item_id: fact.source_item_id, confidence: fact.confidence, added_at: fact.created_at, extractor: fact.extractor ?? null });
+  }
+  return {
+    fact,
+    extractor: fact.extractor ?? null,
+    sources: sources.map(s => ({ ...s, item: getItem(db, s.item_id) })),
+  };
+}
 
-  return rows.map(r => ({
+export type UpsertFactResult = {
+  fact: Fact;
+  created: boolean;     // false: merged into an existing triple
+  reinforced: boolean;  // confidence raised by a new independent source
+  source_item_ids: string[];
+};
+
+/**
+ * Insert a fact, or merge it into an existing identical triple (case/whitespace-insensitive).
+ * A new supporting item reinforces confidence (1 - (1-a)(1-b)); the same source again, or no
+ * source at all, only keeps the higher confidence.
+ */
+export function upsertFact(db: Database.Database, input: InsertFactInput): UpsertFactResult {
+  return db.transaction((): UpsertFactResult => {
+    const same = db
+      .prepare(`SELECT ${FACT_COLUMNS} FROM facts WHERE triple_key = ? ORDER BY created_at ASC, rowid ASC`)
+      .all(factTripleKey(input.subject, input.predicate, input.object))
+      .map(rowToFact);
+    // The input merges into the row that already lists its source (re-extraction), else the one
+    // valid at its valid_from, else the current one. Re-asserting a superseded value later on
+    // starts a new validity period.
+    const from = input.valid_from ?? input.created_at ?? Date.now();
+    const existing =
+      (input.source_item_id ? same.find(f => getFactSourceIds(db, f.id).includes(input.source_item_id!)) : undefined) ??
+      same.find(f => f.valid_from! <= from && (f.valid_to === null || f.valid_to! > from)) ??
+      same.find(f => f.valid_to === null);
+
+    if (!existing) {
+      const fact = insertFact(db, input);
+      return { fact, created: true, reinforced: false, source_item_ids: getFactSourceIds(db, fact.id) };
+    }
+
+    const sources = getFactSourceIds(db, existing.id);
+    const reinforced = !!input.source_item_id && !sources.includes(input.source_item_id);
+    const confidence = reinforced
+      ? reinforceConfidence(existing.confidence, input.confidence)
+      : Math.max(existing.confidence, input.confidence);
+    const fact: Fact = {
+      ...existing,
+      confidence,
+      source_item_id: existing.source_item_id ?? input.source_item_id ?? null,
+      entity_id: existing.entity_id ?? input.entity_id ?? null,
+    };
+    db.prepare(`UPDATE facts SET confidence = ?, source_item_id = ?, entity_id = ? WHERE id = ?`)
+      .run(fact.confidence, fact.source_item_id, fact.entity_id, fact.id);
+    if (input.source_item_id) {
+      db.prepare(`INSERT OR IGNORE INTO fact_sources (fact_id, item_id, confidence, added_at, extractor) VALUES (?, ?, ?, ?, ?)`)
+        .run(fact.id, input.source_item_id, input.confidence, input.created_at ?? Date.now(), input.extractor ?? null);
+    }
+    return { fact, created: false, reinforced, source_item_ids: getFactSourceIds(db, fact.id) };
+  })();
+}
+
+/**
+ * Merge duplicate triples left by plain inserts: the oldest row of each group is kept and
+ * absorbs the others' sources and confidence, replayed in creation order as upsertFact would.
+ * Only still-valid facts are merged; superseded ones are history.
+ */
+export function dedupeFacts(
+  db: Database.Database,
+  opts?: { dryRun?: boolean }
+): { groups: number; removed: number; merged: Array<{ id: string; removed: string[]; confidence: number; source_item_ids: string[] }> } {
+  const rows = db
+    .prepare(`SELECT ${FACT_COLUMNS} FROM facts WHERE valid_to IS NULL ORDER BY created_at ASC, rowid ASC`)
+    .all()
+    .map(rowToFact);
+  const groups = new Map<string, Fact[]>();
+  for (const f of rows) {
+    const key = factTripleKey(f.subject, f.predicate, f.object);
+    const group = groups.get(key);
+    if (group) group.push(f);
+    else groups.set(key, [f]);
+  }
+
+  const merged: Array<{ id: string; removed: string[]; confidence: number; source_item_ids: string[] }> = [];
+  const apply = db.transaction(() => {
+    for (const [key, [keep, ...dups]] of groups) {
+      if (!keep || dups.length === 0) continue;
+      let confidence = keep.confidence;
+      const sources = getFactSourceIds(db, keep.id);
+      const moved: Array<{ item: string; confidence: number; extractor: string | null }> = [];
+      for (const dup of dups) {
+        const fresh = getFactSourceIds(db, dup.id).filter(s => !sources.includes(s));
+        confidence = fresh.length > 0 ? reinforceConfidence(confidence, dup.confidence) : Math.max(confidence, dup.confidence);
+        for (const item of fresh) {
+          sources.push(item);
+          moved.push({ item, confidence: dup.confidence, extractor: dup.extractor ?? null });
+        }
+      }
+      merged.push({ id: keep.id, removed: dups.map(d => d.id), confidence, source_item_ids: sources });
+      if (opts?.dryRun) continue;
+
+      const addSource = db.prepare(
+        `INSERT OR IGNORE INTO fact_sources (fact_id, item_id, confidence, added_at, extractor) VALUES (?, ?, ?, ?, ?)`
+      );
+      if (keep.source_item_id) addSource.run(keep.id, keep.source_item_id, keep.confidence, keep.created_at, keep.extractor ?? null);
+      for (const m of moved) addSource.run(keep.id, m.item, m.confidence, Date.now(), m.extractor);
+      for (const dup of dups) {
+        db.prepare(`DELETE FROM fact_sources WHERE fact_id = ?`).run(dup.id);
+        db.prepare(`DELETE FROM facts WHERE id = ?`).run(dup.id);
+        db.prepare(`UPDATE facts SET superseded_by = ? WHERE superseded_by = ?`).run(keep.id, dup.id);
+      }
+      db.prepare(
+        `UPDATE facts SET confidence = ?, triple_key = ?,
+           source_item_id = COALESCE(source_item_id, ?),
+           entity_id = COALESCE(entity_id, ?)
+         WHERE id = ?`
+      ).run(confidence, key, sources[0] ?? null, dups.find(d => d.entity_id)?.entity_id ?? null, keep.id);
+    }
+  });
+  apply();
+
+  return { groups: merged.length, removed: merged.reduce((n, m) => n + m.removed.length, 0), merged };
+}
+
+const FACT_COLUMNS = `id, created_at, subject, predicate, object, confidence, source_item_id, entity_id,
+  valid_from, valid_to, superseded_by, extractor`;
+
+function rowToFact(r: any): Fact {
+  return {
     id: r.id,
     created_at: r.created_at,
     subject: r.subject,
@@ -1001,98 +2916,98 @@ export function getFactsBySubject(db: Database.Database, subject: string, limit
     confidence: r.confidence,
     source_item_id: r.source_item_id,
     entity_id: r.entity_id,
-  }));
+    valid_from: r.valid_from ?? r.created_at,
+    valid_to: r.valid_to ?? null,
+    superseded_by: r.superseded_by ?? null,
+    extractor: r.extractor ?? null,
+  };
+}
+
+/**
+ * Options for fact queries. `asOf` (epoch ms) keeps only facts valid at that time
+ * (valid_from <= asOf < valid_to); `asOf: Date.now()` gives the current facts.
+ */
+export type FactQueryOpts = { asOf?: number };
+
+function factValiditySql(opts?: FactQueryOpts): { sql: string; params: unknown[] } {
+  if (opts?.asOf === undefined) return { sql: '', params: [] };
+  return {
+    sql: ' AND COALESCE(valid_from, created_at) <= ? AND (valid_to IS NULL OR valid_to > ?)',
+    params: [opts.asOf, opts.asOf],
+  };
+}
+
+/**
+ * Get all facts about a specific subject.
+ */
+export function getFactsBySubject(db: Database.Database, subject: string, limit = 100, opts?: FactQueryOpts): Fact[] {
+  const valid = factValiditySql(opts);
+  const rows = db
+    .prepare(
+      `SELECT ${FACT_COLUMNS}
+       FROM facts
+       WHERE subject = ?${valid.sql}
+       ORDER BY confidence DESC, created_at DESC
+       LIMIT ?`
+    )
+    .all(subject, ...valid.params, limit) as any[];
+
+  return rows.map(rowToFact);
 }
 
 /**
  * Get all facts with a specific predicate.
  */
-export function getFactsByPredicate(db: Database.Database, predicate: string, limit = 100): Fact[] {
+export function getFactsByPredicate(db: Database.Database, predicate: string, limit = 100, opts?: FactQueryOpts): Fact[] {
+  const valid = factValiditySql(opts);
   const rows = db
     .prepare(
-      `SELECT id, created_at, subject, predicate, object, confidence, source_item_id, entity_id
+      `SELECT ${FACT_COLUMNS}
        FROM facts
-       WHERE predicate = ?
+       WHERE predicate = ?${valid.sql}
        ORDER BY confidence DESC, created_at DESC
        LIMIT ?`
     )
-    .all(predicate, limit) as any[];
+    .all(predicate, ...valid.params, limit) as any[];
 
-  return rows.map(r => ({
-    id: r.id,
-    created_at: r.created_at,
-    subject: r.subject,
-    predicate: r.predicate,
-    object: r.object,
-    confidence: r.confidence,
-    source_item_id: r.source_item_id,
-    entity_id: r.entity_id,
-  }));
+  return rows.map(rowToFact);
 }
 
 /**
  * Search facts by subject, predicate, or object (simple LIKE search).
  */
-export function searchFacts(db: Database.Database, query: string, limit = 50): Fact[] {
+export function searchFacts(db: Database.Database, query: string, limit = 50, opts?: FactQueryOpts): Fact[] {
   const pattern = `%${query}%`;
+  const valid = factValiditySql(opts);
   const rows = db
     .prepare(
-      `SELECT id, created_at, subject, predicate, object, confidence, source_item_id, entity_id
+      `SELECT ${FACT_COLUMNS}
        FROM facts
-       WHERE subject LIKE ? OR predicate LIKE ? OR object LIKE ?
+       WHERE (subject LIKE ? OR predicate LIKE ? OR object LIKE ?)${valid.sql}
        ORDER BY confidence DESC, created_at DESC
        LIMIT ?`
     )
-    .all(pattern, pattern, pattern, limit) as any[];
+    .all(pattern, pattern, pattern, ...valid.params, limit) as any[];
 
-  return rows.map(r => ({
-    id: r.id,
-    created_at: r.created_at,
-    subject: r.subject,
-    predicate: r.predicate,
-    object: r.object,
-    confidence: r.confidence,
-    source_item_id: r.source_item_id,
-    entity_id: r.entity_id,
-  }));
+  return rows.map(rowToFact);
 }
 
 /**
  * Get all facts (optionally filtered by entity_id).
  */
-export function getAllFacts(db: Database.Database, entityId?: string, limit = 100): Fact[] {
-  let rows: any[];
-  if (entityId) {
-    rows = db
-      .prepare(
-        `SELECT id, created_at, subject, predicate, object, confidence, source_item_id, entity_id
-         FROM facts
-         WHERE entity_id = ?
-         ORDER BY created_at DESC
-         LIMIT ?`
-      )
-      .all(entityId, limit) as any[];
-  } else {
-    rows = db
-      .prepare(
-        `SELECT id, created_at, subject, predicate, object, confidence, source_item_id, entity_id
-         FROM facts
-         ORDER BY created_at DESC
-         LIMIT ?`
-      )
-      .all(limit) as any[];
-  }
+export function getAllFacts(db: Database.Database, entityId?: string, limit = 100, opts?: FactQueryOpts): Fact[] {
+  const valid = factValiditySql(opts);
+  const rows = db
+    .prepare(
+      `SELECT ${FACT_COLUMNS}
+       FROM facts
+       WHERE ${entityId ? 'entity_id = ?' : '1 = 1'}${valid.sql}
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .all(...(entityId ? [entityId] : []), ...valid.params, limit) as any[];
 
-  return rows.map(r => ({
-    id: r.id,
-    created_at: r.created_at,
-    subject: r.subject,
-    predicate: r.predicate,
-    object: r.object,
-    confidence: r.confidence,
-    source_item_id: r.source_item_id,
-    entity_id: r.entity_id,
-  }));
+  return rows.map(rowToFact);
 }
 
 /**
@@ -1116,96 +3031,493 @@ export function listPredicates(db: Database.Database): string[] {
 }
 
 /**
- * Delete a fact by ID.
+ * Delete a fact by ID.
+ */
+export function deleteFact(db: Database.Database, id: string): boolean {
+  return db.transaction(() => {
+    const deleted = db.prepare('SELECT id, valid_to, superseded_by FROM facts WHERE id = ?').get(id) as DeletedFact | undefined;
+    db.prepare('DELETE FROM fact_sources WHERE fact_id = ?').run(id);
+    const result = db.prepare('DELETE FROM facts WHERE id = ?').run(id);
+    if (deleted) reopenSupersededBy(db, deleted);
+    return (result.changes ?? 0) > 0;
+  })();
+}
+
+type DeletedFact = { id: string; valid_to: number | null; superseded_by: string | null };
+
+/**
+ * Facts replaced by a deleted fact take over its end of validity: they stay superseded by
+ * whatever replaced it, and become valid again only if it was still current.
+ */
+function reopenSupersededBy(db: Database.Database, deleted: DeletedFact): void {
+  db.prepare('UPDATE facts SET valid_to = ?, superseded_by = ? WHERE superseded_by = ?')
+    .run(deleted.valid_to ?? null, deleted.superseded_by ?? null, deleted.id);
+}
+
+/**
+ * Drop a memory item from fact sources; facts it was the first source of move to their
+ * next remaining source (or NULL).
+ */
+function detachFactSource(db: Database.Database, itemId: string): void {
+  db.prepare('DELETE FROM fact_sources WHERE item_id = ?').run(itemId);
+  db.prepare(
+    `UPDATE facts SET source_item_id = (
+       SELECT item_id FROM fact_sources s WHERE s.fact_id = facts.id ORDER BY added_at ASC LIMIT 1
+     ) WHERE source_item_id = ?`
+  ).run(itemId);
+}
+
+/**
+ * Delete all facts derived from a specific memory item.
+ * Facts also supported by other items are kept (without this source).
+ */
+export function deleteFactsBySourceItem(db: Database.Database, sourceItemId: string): number {
+  return db.transaction(() => {
+    const orphans = db
+      .prepare(
+        `SELECT DISTINCT f.id FROM facts f
+         LEFT JOIN fact_sources s ON s.fact_id = f.id
+         WHERE (f.source_item_id = ? OR s.item_id = ?)
+           AND (f.source_item_id IS NULL OR f.source_item_id = ?)
+           AND NOT EXISTS (SELECT 1 FROM fact_sources o WHERE o.fact_id = f.id AND o.item_id <> ?)`
+      )
+      .all(sourceItemId, sourceItemId, sourceItemId, sourceItemId) as { id: string }[];
+    detachFactSource(db, sourceItemId);
+    const get = db.prepare('SELECT id, valid_to, superseded_by FROM facts WHERE id = ?');
+    const del = db.prepare('DELETE FROM facts WHERE id = ?');
+    return orphans.reduce((n, o) => {
+      // Read just before deleting: an earlier deletion may have handed this row a new successor.
+      const row = get.get(o.id) as DeletedFact | undefined;
+      const deleted = del.run(o.id).changes;
+      if (row) reopenSupersededBy(db, row);
+      return n + deleted;
+    }, 0);
+  })();
+}
+
+/**
+ * A fact extraction rule: a regex whose capture groups give the subject and object.
+ * `subject`/`object` are group numbers or names; subject '$entity' means the speaker
+ * (the entityId passed to extraction) for first-person rules like "I live in X".
+ */
+export type FactPatternRule = {
+  id: string;
+  pattern: string;
+  flags?: string;         // default 'iu' ('g' is always added)
+  predicate: string;
+  subject: number | string;
+  object: number | string;
+  confidence: number;     // 0..1
+  language?: string;      // defaults to the pack's language
+  stopwords?: string[];   // extra subjects/objects to drop, on top of the pack's list
+};
+
+/**
+ * A set of rules, usually loaded from a JSON file (same shape as DEFAULT_FACT_PATTERN_PACKS).
+ */
+export type FactPatternPack = {
+  name: string;
+  language?: string;
+  stopwords?: string[];
+  rules: FactPatternRule[];
+};
+
+export type ExtractedFact = {
+  subject: string;
+  predicate: string;
+  object: string;
+  confidence: number;
+  rule: string; // "<pack>/<rule id>"
+};
+
+export type FactExtractionOpts = {
+  packs?: FactPatternPack[];  // default: DEFAULT_FACT_PATTERN_PACKS
+  languages?: string[];       // only run rules in these languages (default: all)
+};
+
+// Building blocks of the default packs. \b is not Unicode-aware, hence the lookbehinds.
+const P_NAME = String.raw`(?<![\p{L}\p{N}_])(\p{L}[\p{L}\p{N}_-]*)`;
+const P_EMAIL = String.raw`([\w.+-]+@[\w-]+(?:\.[\w-]+)+)`;
+const P_EN_VALUE = String.raw`([^.,;:!?\n]+?)(?=\s*(?:[.,;:!?\n]|$)|\s+(?:and|but|because|since)(?![\p{L}\p{N}_]))`;
+const P_FR_VALUE = String.raw`([^.,;:!?\n]+?)(?=\s*(?:[.,;:!?\n]|$)|\s+(?:et|mais|car|parce)(?![\p{L}\p{N}_]))`;
+const P_EN_ADV = String.raw`(?:\s+(?:also|now|still|currently|actually|really))?`;
+const P_EN_DATE = String.raw`(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?|\p{L}+\s+\d{1,2}(?:st|nd|rd|th)?(?:,?\s+\d{4})?|\d{1,2}(?:st|nd|rd|th)?\s+(?:of\s+)?\p{L}+(?:\s+\d{4})?)`;
+const P_FR_DATE = String.raw`(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?|\d{1,2}(?:er)?\s+\p{L}+(?:\s+\d{4})?)`;
+const P_I = String.raw`(?<![\p{L}\p{N}_])I`;
+const P_JE = String.raw`(?<![\p{L}\p{N}_])(?:je\s+|j['’])`;
+const P_WORD_START = String.raw`(?<![\p{L}\p{N}_])`;
+
+/**
+ * Packs used when none are given: English and French rules for works_at, lives_in, prefers,
+ * likes, has_role, birthday, email and is (only "X is a/an Y"; the bare form is too noisy).
+ */
+export const DEFAULT_FACT_PATTERN_PACKS: FactPatternPack[] = [
+  {
+    name: 'en',
+    language: 'en',
+    stopwords: [
+      'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them', 'this', 'that', 'these',
+      'those', 'there', 'here', 'what', 'who', 'which', 'everyone', 'everybody', 'someone', 'somebody',
+      'nobody', 'anyone', 'one', 'my', 'your', 'his', 'our', 'their', 'the', 'a', 'an', 'and', 'but', 'or',
+      'so', 'then',
+    ],
+    rules: [
+      { id: 'works_at', pattern: String.raw`${P_NAME}${P_EN_ADV}\s+(?:works\s+(?:at|for)|is\s+employed\s+(?:at|by))\s+${P_EN_VALUE}`, predicate: 'works_at', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'works_at_self', pattern: String.raw`${P_I}${P_EN_ADV}\s+(?:work\s+(?:at|for)|am\s+employed\s+(?:at|by))\s+${P_EN_VALUE}`, predicate: 'works_at', subject: '$entity', object: 1, confidence: 0.7 },
+      { id: 'lives_in', pattern: String.raw`${P_NAME}${P_EN_ADV}\s+(?:lives|is\s+based|resides)\s+in\s+${P_EN_VALUE}`, predicate: 'lives_in', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'lives_in_self', pattern: String.raw`${P_I}${P_EN_ADV}\s+(?:live|am\s+based|reside)\s+in\s+${P_EN_VALUE}`, predicate: 'lives_in', subject: '$entity', object: 1, confidence: 0.7 },
+      { id: 'prefers', pattern: String.raw`${P_NAME}${P_EN_ADV}\s+prefers\s+${P_EN_VALUE}`, predicate: 'prefers', subject: 1, object: 2, confidence: 0.8 },
+      { id: 'prefers_self', pattern: String.raw`${P_I}${P_EN_ADV}\s+prefer\s+${P_EN_VALUE}`, predicate: 'prefers', subject: '$entity', object: 1, confidence: 0.8 },
+      { id: 'likes', pattern: String.raw`${P_NAME}${P_EN_ADV}\s+(?:likes|loves|enjoys)\s+${P_EN_VALUE}`, predicate: 'likes', subject: 1, object: 2, confidence: 0.6 },
+      { id: 'likes_self', pattern: String.raw`${P_I}${P_EN_ADV}\s+(?:like|love|enjoy)\s+${P_EN_VALUE}`, predicate: 'likes', subject: '$entity', object: 1, confidence: 0.6 },
+      { id: 'has_role', pattern: String.raw`${P_NAME}${P_EN_ADV}\s+works\s+as\s+(?:an?\s+|the\s+)?${P_EN_VALUE}`, predicate: 'has_role', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'has_role_title', pattern: String.raw`${P_NAME}['’]s\s+(?:role|job\s+title|title|position)\s+is\s+(?:an?\s+|the\s+)?${P_EN_VALUE}`, predicate: 'has_role', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'has_role_self', pattern: String.raw`(?:${P_I}${P_EN_ADV}\s+work\s+as|${P_WORD_START}my\s+(?:role|job\s+title|title|position)\s+is)\s+(?:an?\s+|the\s+)?${P_EN_VALUE}`, predicate: 'has_role', subject: '$entity', object: 1, confidence: 0.7 },
+      { id: 'birthday', pattern: String.raw`${P_NAME}['’]s\s+birthday\s+is\s+(?:on\s+)?${P_EN_DATE}`, predicate: 'birthday', subject: 1, object: 2, confidence: 0.8 },
+      { id: 'birthday_born', pattern: String.raw`${P_NAME}\s+was\s+born\s+on\s+${P_EN_DATE}`, predicate: 'birthday', subject: 1, object: 2, confidence: 0.8 },
+      { id: 'birthday_self', pattern: String.raw`(?:${P_WORD_START}my\s+birthday\s+is\s+(?:on\s+)?|${P_I}\s+was\s+born\s+on\s+)${P_EN_DATE}`, predicate: 'birthday', subject: '$entity', object: 1, confidence: 0.8 },
+      { id: 'email', pattern: String.raw`${P_NAME}['’]s\s+e-?mail(?:\s+address)?\s+is\s+${P_EMAIL}`, predicate: 'email', subject: 1, object: 2, confidence: 0.9 },
+      { id: 'email_self', pattern: String.raw`${P_WORD_START}my\s+e-?mail(?:\s+address)?\s+is\s+${P_EMAIL}`, predicate: 'email', subject: '$entity', object: 1, confidence: 0.9 },
+      { id: 'is_a', pattern: String.raw`${P_NAME}\s+is\s+an?\s+${P_EN_VALUE}`, predicate: 'is', subject: 1, object: 2, confidence: 0.5 },
+    ],
+  },
+  {
+    name: 'fr',
+    language: 'fr',
+    stopwords: [
+      'je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles', 'me', 'te', 'se', 'lui', 'leur', 'ce', 'c',
+      'cela', 'ça', 'ceci', 'cette', 'celui', 'celle', 'qui', 'que', 'quoi', 'tout', 'tous', 'personne',
+      'le', 'la', 'les', 'un', 'une', 'mon', 'ma', 'mes', 'son', 'sa', 'ses', 'et', 'mais', 'ou', 'donc', 'puis',
+    ],
+    rules: [
+      { id: 'works_at', pattern: String.raw`${P_NAME}\s+(?:travaille|bosse)\s+(?:chez|pour)\s+${P_FR_VALUE}`, predicate: 'works_at', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'works_at_self', pattern: String.raw`${P_JE}(?:travaille|bosse)\s+(?:chez|pour)\s+${P_FR_VALUE}`, predicate: 'works_at', subject: '$entity', object: 1, confidence: 0.7 },
+      { id: 'lives_in', pattern: String.raw`${P_NAME}\s+(?:habite|vit|réside)\s+(?:à|a|au|aux|en)\s+${P_FR_VALUE}`, predicate: 'lives_in', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'lives_in_self', pattern: String.raw`${P_JE}(?:habite|vis|réside)\s+(?:à|a|au|aux|en)\s+${P_FR_VALUE}`, predicate: 'lives_in', subject: '$entity', object: 1, confidence: 0.7 },
+      { id: 'prefers', pattern: String.raw`${P_NAME}\s+préfère\s+${P_FR_VALUE}`, predicate: 'prefers', subject: 1, object: 2, confidence: 0.8 },
+      { id: 'prefers_self', pattern: String.raw`${P_JE}préfère\s+${P_FR_VALUE}`, predicate: 'prefers', subject: '$entity', object: 1, confidence: 0.8 },
+      { id: 'likes', pattern: String.raw`${P_NAME}\s+(?:aime|adore)\s+(?:bien\s+)?${P_FR_VALUE}`, predicate: 'likes', subject: 1, object: 2, confidence: 0.6 },
+      { id: 'likes_self', pattern: String.raw`${P_JE}(?:aime|adore)\s+(?:bien\s+)?${P_FR_VALUE}`, predicate: 'likes', subject: '$entity', object: 1, confidence: 0.6 },
+      { id: 'has_role', pattern: String.raw`${P_NAME}\s+travaille\s+comme\s+${P_FR_VALUE}`, predicate: 'has_role', subject: 1, object: 2, confidence: 0.7 },
+      { id: 'has_role_self', pattern: String.raw`(?:${P_JE}travaille\s+comme\s+|${P_WORD_START}mon\s+(?:poste|rôle|titre)\s+est\s+(?:celui\s+de\s+)?)${P_FR_VALUE}`, predicate: 'has_role', subject: '$entity', object: 1, confidence: 0.7 },
+      { id: 'birthday', pattern: String.raw`${P_WORD_START}(?:l['’])?anniversaire\s+de\s+${P_NAME}\s+est\s+le\s+${P_FR_DATE}`, predicate: 'birthday', subject: 1, object: 2, confidence: 0.8 },
+      { id: 'birthday_born', pattern: String.raw`${P_NAME}\s+est\s+née?\s+le\s+${P_FR_DATE}`, predicate: 'birthday', subject: 1, object: 2, confidence: 0.8 },
+      { id: 'birthday_self', pattern: String.raw`(?:${P_WORD_START}mon\s+anniversaire\s+est\s+le\s+|${P_JE}suis\s+née?\s+le\s+)${P_FR_DATE}`, predicate: 'birthday', subject: '$entity', object: 1, confidence: 0.8 },
+      { id: 'email', pattern: String.raw`${P_WORD_START}(?:l['’]adresse\s+)?e-?mail\s+de\s+${P_NAME}\s+est\s+${P_EMAIL}`, predicate: 'email', subject: 1, object: 2, confidence: 0.9 },
+      { id: 'email_self', pattern: String.raw`${P_WORD_START}mon\s+(?:adresse\s+)?e-?mail\s+est\s+${P_EMAIL}`, predicate: 'email', subject: '$entity', object: 1, confidence: 0.9 },
+      { id: 'is_a', pattern: String.raw`${P_NAME}\s+est\s+une?\s+${P_FR_VALUE}`, predicate: 'is', subject: 1, object: 2, confidence: 0.5 },
+    ],
+  },
+];
+
+type CompiledFactRule = {
+  key: string;
+  regex: RegExp;
+  rule: FactPatternRule;
+  language: string | null;
+  stopwords: Set<string>;
+};
+
+const compiledFactPacks = new WeakMap<FactPatternPack, CompiledFactRule[]>();
+
+function compileFactPatternPack(pack: FactPatternPack): CompiledFactRule[] {
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid pattern pack${typeof pack?.name === 'string' && pack.name ? ` "${pack.name}"` : ''}: ${msg}`);
+  };
+  if (!pack || typeof pack !== 'object') fail('expected an object');
+  const cached = compiledFactPacks.get(pack);
+  if (cached) return cached;
+
+  const isStringList = (v: unknown) => v === undefined || (Array.isArray(v) && v.every(s => typeof s === 'string'));
+  if (typeof pack.name !== 'string' || !pack.name) fail('"name" must be a non-empty string');
+  if (pack.language !== undefined && typeof pack.language !== 'string') fail('"language" must be a string');
+  if (!isStringList(pack.stopwords)) fail('"stopwords" must be an array of strings');
+  if (!Array.isArray(pack.rules)) fail('"rules" must be an array');
+
+  const ids = new Set<string>();
+  const compiled = pack.rules.map((rule, i): CompiledFactRule => {
+    const where = `rule ${typeof rule?.id === 'string' && rule.id ? `"${rule.id}"` : `#${i}`}`;
+    if (!rule || typeof rule !== 'object') return fail(`${where}: expected an object`);
+    if (typeof rule.id !== 'string' || !rule.id) fail(`${where}: "id" must be a non-empty string`);
+    if (ids.has(rule.id)) fail(`${where}: duplicate id`);
+    ids.add(rule.id);
+    if (typeof rule.predicate !== 'string' || !rule.predicate.trim()) fail(`${where}: "predicate" must be a non-empty string`);
+    if (typeof rule.confidence !== 'number' || !(rule.confidence >= 0 && rule.confidence <= 1)) {
+      fail(`${where}: "confidence" must be a number between 0 and 1`);
+    }
+    if (rule.language !== undefined && typeof rule.language !== 'string') fail(`${where}: "language" must be a string`);
+    if (!isStringList(rule.stopwords)) fail(`${where}: "stopwords" must be an array of strings`);
+    if (typeof rule.pattern !== 'string' || !rule.pattern) fail(`${where}: "pattern" must be a non-empty string`);
+    if (rule.flags !== undefined && (typeof rule.flags !== 'string' || /[^imsuv]/.test(rule.flags))) {
+      fail(`${where}: "flags" may only contain i, m, s, u and v`);
+    }
+
+    const flags = rule.flags ?? 'iu';
+    let regex: RegExp;
+    let probe: RegExpExecArray;
+    try {
+      regex = new RegExp(rule.pattern, `${flags}g`);
+      // The empty alternative always matches, which reveals the groups without running the rule.
+      probe = new RegExp(`(?:${rule.pattern})|`, flags).exec('')!;
+    } catch (e: any) {
+      return fail(`${where}: ${String(e?.message ?? e)}`);
+    }
+    const checkGroup = (field: 'subject' | 'object', ref: unknown) => {
+      if (field === 'subject' && ref === '$entity') return;
+      const ok = typeof ref === 'number'
+        ? Number.isInteger(ref) && ref >= 1 && ref < probe.length
+        : typeof ref === 'string' && probe.groups !== undefined && ref in probe.groups;
+      if (!ok) fail(`${where}: "${field}" must name a capture group of the pattern`);
+    };
+    checkGroup('subject', rule.subject);
+    checkGroup('object', rule.object);
+
+    return {
+      key: `${pack.name}/${rule.id}`,
+      regex,
+      rule,
+      language: rule.language ?? pack.language ?? null,
+      stopwords: new Set([...(pack.stopwords ?? []), ...(rule.stopwords ?? [])].map(w => w.toLowerCase())),
+    };
+  });
+  compiledFactPacks.set(pack, compiled);
+  return compiled;
+}
+
+/** Captured text for a group reference (unmatched optional groups give ''). */
+function factRuleGroup(m: RegExpExecArray, ref: number | string): string {
+  return ((typeof ref === 'number' ? m[ref] : m.groups?.[ref]) ?? '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse and validate a pattern pack (JSON text or an already parsed object).
+ * Throws "Invalid pattern pack ..." naming the offending rule.
+ */
+export function parseFactPatternPack(input: unknown): FactPatternPack {
+  let pack = input;
+  if (typeof input === 'string') {
+    try {
+      pack = JSON.parse(input);
+    } catch (e: any) {
+      throw new Error(`Invalid pattern pack: ${String(e?.message ?? e)}`);
+    }
+  }
+  compileFactPatternPack(pack as FactPatternPack);
+  return pack as FactPatternPack;
+}
+
+/**
+ * Run pattern packs over a text. Candidates whose captured subject or object is a stopword are
+ * dropped, first-person rules need `entityId`, and identical triples keep their highest confidence.
+ */
+export function extractFactsWithPatterns(text: string, entityId?: string, opts?: FactExtractionOpts): ExtractedFact[] {
+  const languages = opts?.languages?.map(l => l.toLowerCase());
+  const byKey = new Map<string, ExtractedFact>();
+  for (const pack of opts?.packs ?? DEFAULT_FACT_PATTERN_PACKS) {
+    for (const c of compileFactPatternPack(pack)) {
+      if (languages && !(c.language && languages.includes(c.language.toLowerCase()))) continue;
+      c.regex.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = c.regex.exec(text)) !== null) {
+        if (m[0] === '') c.regex.lastIndex++;
+        const speaker = c.rule.subject === '$entity';
+        const subject = speaker ? (entityId ?? '').trim() : factRuleGroup(m, c.rule.subject);
+        const object = factRuleGroup(m, c.rule.object);
+        if (!subject || !object) continue;
+        if ((!speaker && c.stopwords.has(subject.toLowerCase())) || c.stopwords.has(object.toLowerCase())) continue;
+
+        const fact: ExtractedFact = { subject, predicate: c.rule.predicate, object, confidence: c.rule.confidence, rule: c.key };
+        const key = factTripleKey(subject, fact.predicate, object);
+        const prev = byKey.get(key);
+        if (!prev || prev.confidence < fact.confidence) byKey.set(key, fact);
+      }
+    }
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Pattern-based fact extraction with the default packs (see extractFactsWithPatterns).
+ * Returns an array of potential facts (not inserted yet).
+ */
+export function extractFactsSimple(text: string, entityId?: string): Array<{
+  subject: string;
+  predicate: string;
+  object: string;
+  confidence: number;
+}> {
+  return extractFactsWithPatterns(text, entityId).map(({ rule: _rule, ...f }) => f);
+}
+
+export type FactPatternSample = {
+  text: string;
+  entity_id?: string;
+  expect?: Array<{ subject: string; predicate: string; object: string }>;
+};
+
+export type FactPatternEvaluation = {
+  samples: Array<{
+    text: string;
+    extracted: ExtractedFact[];
+    matched: number;
+    missing: Array<{ subject: string; predicate: string; object: string }>;
+    unexpected: ExtractedFact[];
+  }>;
+  rules: Record<string, { hits: number; correct: number }>;
+  totals: {
+    samples: number;
+    expected: number;
+    extracted: number;
+    matched: number;
+    precision: number | null;
+    recall: number | null;
+  };
+};
+
+/**
+ * Test harness for pattern packs: extracts from sample texts and compares with the expected
+ * triples (case/whitespace-insensitive). Samples without `expect` are reported but not scored.
+ */
+export function evaluateFactPatterns(samples: FactPatternSample[], opts?: FactExtractionOpts): FactPatternEvaluation {
+  const out: FactPatternEvaluation = {
+    samples: [],
+    rules: {},
+    totals: { samples: samples.length, expected: 0, extracted: 0, matched: 0, precision: null, recall: null },
+  };
+  samples.forEach((s, i) => {
+    if (!s || typeof s.text !== 'string') throw new Error(`Invalid sample #${i}: "text" must be a string`);
+    const scored = Array.isArray(s.expect);
+    const expected = new Map((s.expect ?? []).map(e => [factTripleKey(e.subject, e.predicate, e.object), e]));
+    const extracted = extractFactsWithPatterns(s.text, s.entity_id, opts);
+    const found = new Set<string>();
+    const unexpected: ExtractedFact[] = [];
+    for (const f of extracted) {
+      const key = factTripleKey(f.subject, f.predicate, f.object);
+      const stats = (out.rules[f.rule] ??= { hits: 0, correct: 0 });
+      stats.hits++;
+      if (expected.has(key)) {
+        stats.correct++;
+        found.add(key);
+      } else if (scored) {
+        unexpected.push(f);
+      }
+    }
+    if (scored) {
+      out.totals.expected += expected.size;
+      out.totals.extracted += extracted.length;
+      out.totals.matched += found.size;
+    }
+    out.samples.push({
+      text: s.text,
+      extracted,
+      matched: found.size,
+      missing: [...expected].filter(([k]) => !found.has(k)).map(([, e]) => e),
+      unexpected,
+    });
+  });
+  const t = out.totals;
+  t.precision = t.extracted > 0 ? t.matched / t.extracted : null;
+  t.recall = t.expected > 0 ? t.matched / t.expected : null;
+  return out;
+}
+
+export type ExtractFactsResult = {
+  itemId: string;
+  extracted: number;  // candidates found in the text
+  created: number;    // new facts
+  reinforced: number; // existing facts confirmed by this item
+  facts: Fact[];
+};
+
+/**
+ * Extract facts from a stored item and upsert them with the item as source: source_item_id
+ * and entity_id come from the item, valid_from is its creation time. Re-running on the same
+ * item is idempotent. Returns null if the item does not exist.
  */
-export function deleteFact(db: Database.Database, id: string): boolean {
-  const stmt = db.prepare('DELETE FROM facts WHERE id = ?');
-  const result = stmt.run(id);
-  return (result.changes ?? 0) > 0;
+export function extractAndStoreFacts(
+  db: Database.Database,
+  itemId: string,
+  opts?: FactExtractionOpts & { minConfidence?: number }
+): ExtractFactsResult | null {
+  const item = getItem(db, itemId);
+  if (!item) return null;
+  const candidates = extractFactsWithPatterns(item.text, item.entity_id ?? undefined, opts)
+    .filter(f => f.confidence >= (opts?.minConfidence ?? 0));
+
+  return db.transaction((): ExtractFactsResult => {
+    const out: ExtractFactsResult = { itemId, extracted: candidates.length, created: 0, reinforced: 0, facts: [] };
+    for (const c of candidates) {
+      const r = upsertFact(db, {
+        id: randomUUID(),
+        subject: c.subject,
+        predicate: c.predicate,
+        object: c.object,
+        confidence: c.confidence,
+        source_item_id: item.id,
+        entity_id: item.entity_id ?? null,
+        valid_from: item.created_at,
+        extractor: `pattern:${c.rule}`,
+      });
+      if (r.created) out.created++;
+      if (r.reinforced) out.reinforced++;
+      out.facts.push(r.fact);
+    }
+    return out;
+  })();
 }
 
 /**
- * Delete all facts derived from a specific memory item.
+ * Facts supported by a memory item (as first or additional source).
  */
-export function deleteFactsBySourceItem(db: Database.Database, sourceItemId: string): number {
-  const stmt = db.prepare('DELETE FROM facts WHERE source_item_id = ?');
-  const result = stmt.run(sourceItemId);
-  return result.changes ?? 0;
+export function getFactsBySourceItem(db: Database.Database, itemId: string): Fact[] {
+  const rows = db
+    .prepare(
+      `SELECT ${FACT_COLUMNS}
+       FROM facts
+       WHERE source_item_id = ? OR id IN (SELECT fact_id FROM fact_sources WHERE item_id = ?)
+       ORDER BY created_at ASC`
+    )
+    .all(itemId, itemId) as any[];
+  return rows.map(rowToFact);
 }
 
 /**
- * Simple pattern-based fact extraction.
- * Looks for common patterns like "X works at Y", "X prefers Y", etc.
- * Returns an array of potential facts (not inserted yet).
+ * Run extractAndStoreFacts over stored items, paged by rowid. Items that already support a
+ * fact are skipped unless `force` is set.
  */
-export function extractFactsSimple(text: string, entityId?: string): Array<{
-  subject: string;
-  predicate: string;
-  object: string;
-  confidence: number;
-}> {
-  const facts: Array<{ subject: string; predicate: string; object: string; confidence: number }> = [];
-  const lower = text.toLowerCase();
-
-  // Pattern: "X works at Y" / "X travaille chez Y"
-  const workPatterns = [
-    /(\w+)\s+(?:works at|travaille chez|works for|work at)\s+([\w\s]+?)(?:\.|,|$)/gi,
-  ];
-  for (const pattern of workPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      facts.push({
-        subject: match[1].trim(),
-        predicate: 'works_at',
-        object: match[2].trim(),
-        confidence: 0.7,
-      });
-    }
-  }
-
-  // Pattern: "X prefers Y" / "X préfère Y"
-  const preferPatterns = [
-    /(\w+)\s+(?:prefers?|préfère)\s+([\w\s]+?)(?:\.|,|$)/gi,
-  ];
-  for (const pattern of preferPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      facts.push({
-        subject: match[1].trim(),
-        predicate: 'prefers',
-        object: match[2].trim(),
-        confidence: 0.8,
-      });
-    }
+export function backfillFacts(
+  db: Database.Database,
+  opts?: FactExtractionOpts & {
+    force?: boolean;
+    batchSize?: number; // default 500
+    minConfidence?: number;
+    onProgress?: (p: { scanned: number; created: number; reinforced: number }) => void;
   }
-
-  // Pattern: "X is Y" / "X est Y"
-  const isPatterns = [
-    /(\w+)\s+(?:is|est)\s+(?:a |an |un |une )?([\w\s]+?)(?:\.|,|$)/gi,
-  ];
-  for (const pattern of isPatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      const subject = match[1].trim();
-      // Skip common false positives
-      if (['it', 'this', 'that', 'ce', 'il', 'elle', 'cette'].includes(subject.toLowerCase())) continue;
-      facts.push({
-        subject,
-        predicate: 'is',
-        object: match[2].trim(),
-        confidence: 0.6,
-      });
+): { scanned: number; itemsWithFacts: number; created: number; reinforced: number } {
+  const batchSize = Math.max(1, opts?.batchSize ?? 500);
+  const page = db.prepare(
+    `SELECT i.rowid AS rid, i.id FROM items i
+     WHERE i.rowid > ?${opts?.force ? '' : `
+       AND NOT EXISTS (SELECT 1 FROM facts f WHERE f.source_item_id = i.id)
+       AND NOT EXISTS (SELECT 1 FROM fact_sources s WHERE s.item_id = i.id)`}
+     ORDER BY i.rowid ASC LIMIT ?`
+  );
+  const totals = { scanned: 0, itemsWithFacts: 0, created: 0, reinforced: 0 };
+  let after = 0;
+  for (;;) {
+    const rows = page.all(after, batchSize) as { rid: number; id: string }[];
+    if (rows.length === 0) break;
+    for (const r of rows) {
+      const res = extractAndStoreFacts(db, r.id, opts);
+      totals.scanned++;
+      if (res && res.facts.length > 0) totals.itemsWithFacts++;
+      totals.created += res?.created ?? 0;
+      totals.reinforced += res?.reinforced ?? 0;
     }
+    after = rows[rows.length - 1]!.rid;
+    opts?.onProgress?.({ scanned: totals.scanned, created: totals.created, reinforced: totals.reinforced });
   }
-
-  // Dedupe by subject+predicate+object
-  const seen = new Set<string>();
-  return facts.filter(f => {
-    const key = `${f.subject}|${f.predicate}|${f.object}`.toLowerCase();
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+  return totals;
 }
 
 // ============================================================================
@@ -1213,10 +3525,15 @@ export function extractFactsSimple(text: string, entityId?: string): Array<{
 // ============================================================================
 
 export type GraphEdge = {
+  fact_id: string;
   subject: string;
   predicate: string;
   object: string;
   confidence: number;
+  source_item_ids: string[]; // supporting memory items, oldest first (see getFactProvenance)
+  valid_from: number;
+  valid_to: number | null;        // null: still valid
+  superseded_by: string | null;
 };
 
 export type GraphPath = {
@@ -1236,40 +3553,88 @@ export type GraphStats = {
 };
 
 /**
- * Get all facts where the entity is either subject or object.
+ * Graph queries read the facts valid at `asOf` (default: now) through a `live` CTE, so a
+ * superseded value ("works_at Fasst" after "works_at Acme") is not a current edge.
+ */
+function graphFactsCte(opts?: FactQueryOpts): { sql: string; params: unknown[] } {
+  const valid = factValiditySql({ asOf: opts?.asOf ?? Date.now() });
+  return { sql: `WITH live AS (SELECT * FROM facts WHERE 1 = 1${valid.sql})`, params: valid.params };
+}
+
+const GRAPH_EDGE_COLUMNS = 'id, subject, predicate, object, confidence, source_item_id, created_at, valid_from, valid_to, superseded_by';
+
+/**
+ * Turn fact rows (GRAPH_EDGE_COLUMNS) into edges, loading their sources in one query.
+ */
+function toGraphEdges(db: Database.Database, rows: any[]): GraphEdge[] {
+  const sources = new Map<string, string[]>();
+  if (rows.length > 0) {
+    const links = db
+      .prepare(
+        `SELECT fact_id, item_id FROM fact_sources
+         WHERE fact_id IN (SELECT value FROM json_each(?))
+         ORDER BY added_at ASC, rowid ASC`
+      )
+      .all(JSON.stringify(rows.map(r => r.id))) as { fact_id: string; item_id: string }[];
+    for (const l of links) {
+      const ids = sources.get(l.fact_id);
+      if (ids) ids.push(l.item_id);
+      else sources.set(l.fact_id, [l.item_id]);
+    }
+  }
+
+  return rows.map(r => {
+    const ids = sources.get(r.id) ?? [];
+    // Facts stored before fact_sources existed only carry source_item_id.
+    if (r.source_item_id && !ids.includes(r.source_item_id)) ids.unshift(r.source_item_id);
+    return {
+      fact_id: r.id,
+      subject: r.subject,
+      predicate: r.predicate,
+      object: r.object,
+      confidence: r.confidence,
+      source_item_ids: ids,
+      valid_from: r.valid_from ?? r.created_at,
+      valid_to: r.valid_to ?? null,
+      superseded_by: r.superseded_by ?? null,
+    };
+  });
+}
+
+/**
+ * Get all facts where the entity is either subject or object (valid at `asOf`, default now).
  */
-export function getEntityGraph(db: Database.Database, entity: string): GraphEdge[] {
+export function getEntityGraph(db: Database.Database, entity: string, opts?: FactQueryOpts): GraphEdge[] {
+  const live = graphFactsCte(opts);
   const rows = db
     .prepare(
-      `SELECT subject, predicate, object, confidence
-       FROM facts
+      `${live.sql}
+       SELECT ${GRAPH_EDGE_COLUMNS}
+       FROM live
        WHERE subject = ? OR object = ?
        ORDER BY confidence DESC`
     )
-    .all(entity, entity) as any[];
+    .all(...live.params, entity, entity) as any[];
 
-  return rows.map(r => ({
-    subject: r.subject,
-    predicate: r.predicate,
-    object: r.object,
-    confidence: r.confidence,
-  }));
+  return toGraphEdges(db, rows);
 }
 
 /**
  * Get all entities directly connected to a given entity.
  */
-export function getRelatedEntities(db: Database.Database, entity: string): string[] {
+export function getRelatedEntities(db: Database.Database, entity: string, opts?: FactQueryOpts): string[] {
+  const live = graphFactsCte(opts);
   const rows = db
     .prepare(
-      `SELECT DISTINCT CASE 
+      `${live.sql}
+       SELECT DISTINCT CASE 
          WHEN subject = ? THEN object 
          ELSE subject 
        END AS related
-       FROM facts
+       FROM live
        WHERE subject = ? OR object = ?`
     )
-    .all(entity, entity, entity) as { related: string }[];
+    .all(...live.params, entity, entity, entity) as { related: string }[];
 
   return rows.map(r => r.related).filter(e => e !== entity);
 }
@@ -1283,28 +3648,24 @@ export function findPaths(
   fromEntity: string,
   toEntity: string,
   maxDepth = 4,
-  maxPaths = 5
+  maxPaths = 5,
+  opts?: FactQueryOpts
 ): GraphPath[] {
   // Get all edges for efficient graph traversal
-  const allEdges = db
-    .prepare(`SELECT subject, predicate, object, confidence FROM facts`)
-    .all() as any[];
+  const live = graphFactsCte(opts);
+  const allEdges = toGraphEdges(
+    db,
+    db.prepare(`${live.sql} SELECT ${GRAPH_EDGE_COLUMNS} FROM live`).all(...live.params) as any[]
+  );
 
   // Build adjacency list (undirected - we can traverse both ways)
   const adjacency = new Map<string, Array<{ entity: string; edge: GraphEdge }>>();
-  for (const e of allEdges) {
-    const edge: GraphEdge = {
-      subject: e.subject,
-      predicate: e.predicate,
-      object: e.object,
-      confidence: e.confidence,
-    };
-
-    if (!adjacency.has(e.subject)) adjacency.set(e.subject, []);
-    if (!adjacency.has(e.object)) adjacency.set(e.object, []);
+  for (const edge of allEdges) {
+    if (!adjacency.has(edge.subject)) adjacency.set(edge.subject, []);
+    if (!adjacency.has(edge.object)) adjacency.set(edge.object, []);
     
-    adjacency.get(e.subject)!.push({ entity: e.object, edge });
-    adjacency.get(e.object)!.push({ entity: e.subject, edge });
+    adjacency.get(edge.subject)!.push({ entity: edge.object, edge });
+    adjacency.get(edge.object)!.push({ entity: edge.subject, edge });
   }
 
   // BFS to find paths
@@ -1348,46 +3709,49 @@ export function findPaths(
 /**
  * Get statistics about the knowledge graph.
  */
-export function getGraphStats(db: Database.Database): GraphStats {
+export function getGraphStats(db: Database.Database, opts?: FactQueryOpts): GraphStats {
+  const live = graphFactsCte(opts);
   // Total facts
-  const totalFactsRow = db.prepare(`SELECT COUNT(*) as count FROM facts`).get() as { count: number };
+  const totalFactsRow = db.prepare(`${live.sql} SELECT COUNT(*) as count FROM live`).get(...live.params) as { count: number };
   const totalFacts = totalFactsRow?.count ?? 0;
 
   // Total unique entities (subjects + objects)
   const entitiesRow = db
     .prepare(
-      `SELECT COUNT(DISTINCT entity) as count FROM (
-         SELECT subject as entity FROM facts
+      `${live.sql}
+       SELECT COUNT(DISTINCT entity) as count FROM (
+         SELECT subject as entity FROM live
          UNION
-         SELECT object as entity FROM facts
+         SELECT object as entity FROM live
        )`
     )
-    .get() as { count: number };
+    .get(...live.params) as { count: number };
   const totalEntities = entitiesRow?.count ?? 0;
 
   // Total predicates
   const predicatesRow = db
-    .prepare(`SELECT COUNT(DISTINCT predicate) as count FROM facts`)
-    .get() as { count: number };
+    .prepare(`${live.sql} SELECT COUNT(DISTINCT predicate) as count FROM live`)
+    .get(...live.params) as { count: number };
   const totalPredicates = predicatesRow?.count ?? 0;
 
   // Most connected entities
   const mostConnected = db
     .prepare(
-      `SELECT entity, COUNT(*) as connections FROM (
-         SELECT subject as entity FROM facts
+      `${live.sql}
+       SELECT entity, COUNT(*) as connections FROM (
+         SELECT subject as entity FROM live
          UNION ALL
-         SELECT object as entity FROM facts
+         SELECT object as entity FROM live
        ) GROUP BY entity ORDER BY connections DESC LIMIT 10`
     )
-    .all() as { entity: string; connections: number }[];
+    .all(...live.params) as { entity: string; connections: number }[];
 
   // Most used predicates
   const mostUsedPredicates = db
     .prepare(
-      `SELECT predicate, COUNT(*) as count FROM facts GROUP BY predicate ORDER BY count DESC LIMIT 10`
+      `${live.sql} SELECT predicate, COUNT(*) as count FROM live GROUP BY predicate ORDER BY count DESC LIMIT 10`
     )
-    .all() as { predicate: string; count: number }[];
+    .all(...live.params) as { predicate: string; count: number }[];
 
   // Average connections per entity
   const avgConnections = totalEntities > 0 
@@ -1413,36 +3777,44 @@ export function exportGraphJson(
     limit?: number; 
     minConfidence?: number;
     entity?: string; // Export only subgraph around this entity
+    asOf?: number;   // Facts valid at this time (default: now)
   }
-): { nodes: Array<{ id: string; label: string }>; edges: Array<{ from: string; to: string; label: string; confidence: number }> } {
+): {
+  nodes: Array<{ id: string; label: string }>;
+  edges: Array<{ id: string; from: string; to: string; label: string; confidence: number; source_item_ids: string[] }>;
+} {
   let facts: any[];
+  const live = graphFactsCte({ asOf: options?.asOf });
   
   if (options?.entity) {
     facts = db
       .prepare(
-        `SELECT subject, predicate, object, confidence FROM facts
+        `${live.sql}
+         SELECT ${GRAPH_EDGE_COLUMNS} FROM live
          WHERE subject = ? OR object = ?
          ORDER BY confidence DESC
          LIMIT ?`
       )
-      .all(options.entity, options.entity, options?.limit ?? 1000) as any[];
+      .all(...live.params, options.entity, options.entity, options?.limit ?? 1000) as any[];
   } else if (options?.minConfidence) {
     facts = db
       .prepare(
-        `SELECT subject, predicate, object, confidence FROM facts
+        `${live.sql}
+         SELECT ${GRAPH_EDGE_COLUMNS} FROM live
          WHERE confidence >= ?
          ORDER BY confidence DESC
          LIMIT ?`
       )
-      .all(options.minConfidence, options?.limit ?? 1000) as any[];
+      .all(...live.params, options.minConfidence, options?.limit ?? 1000) as any[];
   } else {
     facts = db
       .prepare(
-        `SELECT subject, predicate, object, confidence FROM facts
+        `${live.sql}
+         SELECT ${GRAPH_EDGE_COLUMNS} FROM live
          ORDER BY confidence DESC
          LIMIT ?`
       )
-      .all(options?.limit ?? 1000) as any[];
+      .all(...live.params, options?.limit ?? 1000) as any[];
   }
 
   // Build unique nodes
@@ -1453,11 +3825,13 @@ export function exportGraphJson(
   }
 
   const nodes = Array.from(nodeSet).map(id => ({ id, label: id }));
-  const edges = facts.map(f => ({
-    from: f.subject,
-    to: f.object,
-    label: f.predicate,
-    confidence: f.confidence,
+  const edges = toGraphEdges(db, facts).map(e => ({
+    id: e.fact_id,
+    from: e.subject,
+    to: e.object,
+    label: e.predicate,
+    confidence: e.confidence,
+    source_item_ids: e.source_item_ids,
   }));
 
   return { nodes, edges };
@@ -1490,12 +3864,21 @@ export type EmbeddingStats = {
   totalSizeBytes: number;
   avgDims: number;
   models: Array<{ model: string; count: number; avgDims: number }>;
+  formats: Array<{ format: string; count: number; sizeBytes: number }>;
+  // Coverage of the active model, when one is given
+  active?: {
+    model: string;
+    embedded: number;
+    missing: number; // Items with no vector for this model (backfill with embedMissing)
+    dims: number[];  // Distinct dims stored for this model; more than one means stale vectors
+  };
 };
 
 /**
  * Get statistics about stored embeddings.
+ * With `activeModel` (see embeddingModelName), also reports how many items lack a vector for it.
  */
-export function getEmbeddingStats(db: Database.Database): EmbeddingStats {
+export function getEmbeddingStats(db: Database.Database, activeModel?: string): EmbeddingStats {
   const totalRow = db
     .prepare(`SELECT COUNT(*) as count, SUM(LENGTH(vector)) as totalSize, AVG(dims) as avgDims FROM embeddings`)
     .get() as { count: number; totalSize: number; avgDims: number };
@@ -1504,6 +3887,10 @@ export function getEmbeddingStats(db: Database.Database): EmbeddingStats {
     .prepare(`SELECT model, COUNT(*) as count, AVG(dims) as avgDims FROM embeddings GROUP BY model`)
     .all() as { model: string; count: number; avgDims: number }[];
 
+  const formatRows = db
+    .prepare(`SELECT format, COUNT(*) as count, SUM(LENGTH(vector)) as sizeBytes FROM embeddings GROUP BY format`)
+    .all() as { format: string; count: number; sizeBytes: number }[];
+
   return {
     totalEmbeddings: totalRow?.count ?? 0,
     totalSizeBytes: totalRow?.totalSize ?? 0,
@@ -1513,9 +3900,76 @@ export function getEmbeddingStats(db: Database.Database): EmbeddingStats {
       count: r.count,
       avgDims: Math.round(r.avgDims * 10) / 10,
     })),
+    formats: formatRows,
+    ...(activeModel !== undefined ? { active: activeModelCoverage(db, activeModel) } : {}),
   };
 }
 
+function activeModelCoverage(db: Database.Database, model: string): NonNullable<EmbeddingStats['active']> {
+  const items = (db.prepare('SELECT COUNT(*) as count FROM items').get() as { count: number }).count;
+  const embedded = (db.prepare('SELECT COUNT(*) as count FROM embeddings WHERE model = ?').get(model) as { count: number }).count;
+  const dims = (db.prepare('SELECT DISTINCT dims FROM embeddings WHERE model = ? ORDER BY dims').all(model) as { dims: number }[])
+    .map(r => r.dims);
+  // Counted per item: vectors of deleted items (or several rows per item) must not make this negative.
+  const missing = (db
+    .prepare('SELECT COUNT(*) as count FROM items i WHERE NOT EXISTS (SELECT 1 FROM embeddings e WHERE e.item_id = i.id AND e.model = ?)')
+    .get(model) as { count: number }).count;
+  return { model, embedded, missing, dims };
+}
+
+export type CompactEmbeddingsResult = {
+  format: EmbeddingFormat;
+  converted: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  bytesSaved: number;
+};
+
+/**
+ * Re-encode stored vectors into `format` (default f16), optionally for one model only.
+ * Rows already in that format are left alone. Sizes come from getEmbeddingStats.
+ */
+export function compactEmbeddings(
+  db: Database.Database,
+  opts?: { format?: EmbeddingFormat; model?: string; batchSize?: number }
+): CompactEmbeddingsResult {
+  const format = opts?.format ?? 'f16';
+  const batchSize = Math.max(1, opts?.batchSize ?? 500);
+  const bytesBefore = getEmbeddingStats(db).totalSizeBytes;
+
+  const page = db.prepare(
+    `SELECT rowid AS rid, vector, format FROM embeddings
+     WHERE format != ? AND rowid > ?${opts?.model ? ' AND model = ?' : ''}
+     ORDER BY rowid LIMIT ?`
+  );
+  const update = db.prepare('UPDATE embeddings SET vector = ?, format = ? WHERE rowid = ?');
+  const convert = db.transaction((rows: Array<{ rid: number; vector: Buffer; format: string }>) => {
+    for (const r of rows) update.run(vectorToBlob(blobToVector(r.vector, r.format), format), format, r.rid);
+  });
+
+  let converted = 0;
+  let cursor = 0;
+  while (true) {
+    const args = opts?.model ? [format, cursor, opts.model, batchSize] : [format, cursor, batchSize];
+    const rows = page.all(...args) as Array<{ rid: number; vector: Buffer; format: string }>;
+    if (rows.length === 0) break;
+    convert(rows);
+    converted += rows.length;
+    cursor = rows[rows.length - 1]!.rid;
+  }
+
+  const bytesAfter = getEmbeddingStats(db).totalSizeBytes;
+  return { format, converted, bytesBefore, bytesAfter, bytesSaved: bytesBefore - bytesAfter };
+}
+
+/**
+ * Delete all stored embeddings of a (retired) model. Returns the number of rows removed.
+ */
+export function deleteEmbeddingsByModel(db: Database.Database, model: string): number {
+  dropAnnIndex(db, model);
+  return db.prepare('DELETE FROM embeddings WHERE model = ?').run(model).changes;
+}
+
 /**
  * Quantize a Float32Array to Float16 (Uint16Array representation).
  * Reduces storage by 50% with minimal accuracy loss.
@@ -1737,3 +4191,604 @@ export function runEmbeddingBenchmark(): {
   
   return { f32ToF16: f32toF16, f16ToF32: f16toF32, cosine, cosineF16 };
 }
+
+// ============================================================================
+// ANN index (IVF)
+// ============================================================================
+
+export type AnnIndexInfo = {
+  model: string;
+  dims: number;
+  lists: number;
+  built_at: number;
+  assigned: number; // Vectors currently indexed
+};
+
+type AnnCentroids = { builtAt: number; dims: number; centroids: Float32Array[] };
+
+// Centroids per db/model, reloaded whenever the index is rebuilt (built_at changes).
+const annCache = new WeakMap<Database.Database, Map<string, AnnCentroids>>();
+
+function normalized(vec: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vec.length; i++) norm += vec[i]! * vec[i]!;
+  norm = Math.sqrt(norm) || 1;
+  const out = new Float32Array(vec.length);
+  for (let i = 0; i < vec.length; i++) out[i] = vec[i]! / norm;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i]! * b[i]!;
+  return sum;
+}
+
+// Centroids are unit vectors, so the best dot product is also the best cosine.
+function nearestList(centroids: Float32Array[], vec: Float32Array): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const score = dot(centroids[i]!, vec);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function loadAnnCentroids(db: Database.Database, model: string): AnnCentroids | null {
+  const meta = db.prepare('SELECT dims, built_at FROM ann_indexes WHERE model = ?').get(model) as
+    | { dims: number; built_at: number }
+    | undefined;
+  if (!meta) return null;
+
+  let cache = annCache.get(db);
+  if (!cache) {
+    cache = new Map();
+    annCache.set(db, cache);
+  }
+  const hit = cache.get(model);
+  if (hit && hit.builtAt === meta.built_at) return hit;
+
+  const rows = db
+    .prepare('SELECT centroid FROM ann_centroids WHERE model = ? ORDER BY list_id')
+    .all(model) as Array<{ centroid: Buffer }>;
+  const entry = { builtAt: meta.built_at, dims: meta.dims, centroids: rows.map((r) => new Float32Array(blobToVector(r.centroid))) };
+  cache.set(model, entry);
+  return entry;
+}
+
+/**
+ * Keep the ANN index current when a vector is stored (no-op without an index for the model).
+ */
+function annAssign(db: Database.Database, itemId: string, emb: Embedding): void {
+  const idx = loadAnnCentroids(db, emb.model);
+  if (!idx) return;
+  if (idx.dims !== emb.dims) {
+    db.prepare('DELETE FROM ann_assignments WHERE item_id = ? AND model = ?').run(itemId, emb.model);
+    return;
+  }
+  db.prepare(
+    `INSERT INTO ann_assignments (item_id, model, list_id) VALUES (?, ?, ?)
+     ON CONFLICT(item_id, model) DO UPDATE SET list_id = excluded.list_id`
+  ).run(itemId, emb.model, nearestList(idx.centroids, emb.vector));
+}
+
+/**
+ * The `nprobe` lists closest to the query, or null when there is no usable index.
+ */
+function annProbeLists(db: Database.Database, queryEmb: Embedding, nprobe: number): number[] | null {
+  const idx = loadAnnCentroids(db, queryEmb.model);
+  if (!idx || idx.dims !== queryEmb.dims || idx.centroids.length === 0) return null;
+  return idx.centroids
+    .map((c, list) => ({ list, score: dot(c, queryEmb.vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(1, nprobe))
+    .map((x) => x.list);
+}
+
+/**
+ * Build (or rebuild) an IVF index for a model: spherical k-means over a sample of the
+ * stored vectors, then every vector is assigned to its nearest centroid. Semantic and
+ * hybrid search then only scan the `nprobe` closest lists. The index is kept current
+ * as vectors are stored or deleted; rebuild it when the data has drifted a lot.
+ */
+export function buildAnnIndex(
+  db: Database.Database,
+  opts: {
+    model: string;
+    lists?: number;      // default sqrt(vector count)
+    iterations?: number; // k-means iterations, default 10
+    sampleSize?: number; // vectors used for training, default 20000
+  }
+): AnnIndexInfo & { trainedOn: number; ms: number } {
+  const started = performance.now();
+  const model = opts.model;
+  const dimsRow = db
+    .prepare('SELECT dims, COUNT(*) as count FROM embeddings WHERE model = ? GROUP BY dims ORDER BY count DESC LIMIT 1')
+    .get(model) as { dims: number; count: number } | undefined;
+  if (!dimsRow) throw new Error(`No embeddings stored for model: ${model}`);
+  const { dims, count } = dimsRow;
+
+  const sampleSize = Math.max(1, opts.sampleSize ?? 20000);
+  const sample = (
+    db
+      .prepare(
+        `SELECT vector, format FROM embeddings WHERE model = ? AND dims = ?
+         ${count > sampleSize ? 'ORDER BY random()' : 'ORDER BY rowid'} LIMIT ?`
+      )
+      .all(model, dims, sampleSize) as Array<{ vector: Buffer; format: string }>
+  ).map((r) => normalized(blobToVector(r.vector, r.format)));
+
+  const lists = Math.max(1, Math.min(sample.length, Math.floor(opts.lists ?? Math.round(Math.sqrt(count))), 4096));
+  let centroids: Float32Array[] = Array.from({ length: lists }, (_, i) => new Float32Array(sample[Math.floor((i * sample.length) / lists)]!));
+
+  const assignment = new Int32Array(sample.length).fill(-1);
+  for (let iter = 0; iter < Math.max(1, opts.iterations ?? 10); iter++) {
+    let changed = 0;
+    const sums = Array.from({ length: lists }, () => new Float32Array(dims));
+    const sizes = new Int32Array(lists);
+    sample.forEach((vec, i) => {
+      const list = nearestList(centroids, vec);
+      if (assignment[i] !== list) changed++;
+      assignment[i] = list;
+      sizes[list]!++;
+      const sum = sums[list]!;
+      for (let d = 0; d < dims; d++) sum[d]! += vec[d]!;
+    });
+    // Empty lists keep their previous centroid.
+    centroids = centroids.map((c, list) => (sizes[list]! > 0 ? normalized(sums[list]!) : c));
+    if (changed === 0) break;
+  }
+
+  const prev = db.prepare('SELECT built_at FROM ann_indexes WHERE model = ?').get(model) as { built_at: number } | undefined;
+  const builtAt = Math.max(Date.now(), (prev?.built_at ?? 0) + 1);
+  db.transaction(() => {
+    db.prepare('DELETE FROM ann_assignments WHERE model = ?').run(model);
+    db.prepare('DELETE FROM ann_centroids WHERE model = ?').run(model);
+    const insert = db.prepare('INSERT INTO ann_centroids (model, list_id, centroid) VALUES (?, ?, ?)');
+    centroids.forEach((c, list) => insert.run(model, list, vectorToBlob(c)));
+    db.prepare(
+      `INSERT INTO ann_indexes (model, dims, lists, built_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(model) DO UPDATE SET dims = excluded.dims, lists = excluded.lists, built_at = excluded.built_at`
+    ).run(model, dims, lists, builtAt);
+  })();
+
+  // Assign every vector, a page at a time (no writes while a read cursor is open).
+  const page = db.prepare(
+    'SELECT rowid AS rid, item_id, vector, format FROM embeddings WHERE model = ? AND dims = ? AND rowid > ? ORDER BY rowid LIMIT 1000'
+  );
+  const assign = db.prepare('INSERT INTO ann_assignments (item_id, model, list_id) VALUES (?, ?, ?)');
+  const assignPage = db.transaction((rows: Array<{ item_id: string; vector: Buffer; format: string }>) => {
+    for (const r of rows) assign.run(r.item_id, model, nearestList(centroids, blobToVector(r.vector, r.format)));
+  });
+  let cursor = 0;
+  let assigned = 0;
+  while (true) {
+    const rows = page.all(model, dims, cursor) as Array<{ rid: number; item_id: string; vector: Buffer; format: string }>;
+    if (rows.length === 0) break;
+    assignPage(rows);
+    assigned += rows.length;
+    cursor = rows[rows.length - 1]!.rid;
+  }
+
+  annCache.get(db)?.delete(model);
+  return { model, dims, lists, built_at: builtAt, assigned, trainedOn: sample.length, ms: Math.round(performance.now() - started) };
+}
+
+/**
+ * Remove a model's ANN index; searches go back to exact scans. Returns false if there was none.
+ */
+export function dropAnnIndex(db: Database.Database, model: string): boolean {
+  let existed = false;
+  db.transaction(() => {
+    db.prepare('DELETE FROM ann_assignments WHERE model = ?').run(model);
+    db.prepare('DELETE FROM ann_centroids WHERE model = ?').run(model);
+    existed = db.prepare('DELETE FROM ann_indexes WHERE model = ?').run(model).changes > 0;
+  })();
+  annCache.get(db)?.delete(model);
+  return existed;
+}
+
+export function listAnnIndexes(db: Database.Database): AnnIndexInfo[] {
+  return db
+    .prepare(
+      `SELECT x.model, x.dims, x.lists, x.built_at,
+              (SELECT COUNT(*) FROM ann_assignments a WHERE a.model = x.model) as assigned
+       FROM ann_indexes x ORDER BY x.model`
+    )
+    .all() as AnnIndexInfo[];
+}
+
+/**
+ * Compare ANN search against an exact scan, using stored vectors as queries.
+ * Reports average latency of both and recall@K of the ANN results.
+ */
+export function benchmarkAnnSearch(
+  db: Database.Database,
+  opts: { model: string; queries?: number; topK?: number; nprobe?: number }
+): {
+  model: string;
+  vectors: number;
+  lists: number;
+  nprobe: number;
+  queries: number;
+  topK: number;
+  exactMsAvg: number;
+  annMsAvg: number;
+  speedup: number;
+  recallAtK: number;
+} {
+  const idx = loadAnnCentroids(db, opts.model);
+  if (!idx) throw new Error(`No ANN index for model: ${opts.model} (run buildAnnIndex first)`);
+  const topK = Math.max(1, opts.topK ?? 10);
+  const nprobe = Math.max(1, opts.nprobe ?? 8);
+
+  const vectors = (db.prepare('SELECT COUNT(*) as count FROM embeddings WHERE model = ? AND dims = ?').get(opts.model, idx.dims) as { count: number }).count;
+  const queries = (
+    db
+      .prepare('SELECT vector, format FROM embeddings WHERE model = ? AND dims = ? ORDER BY random() LIMIT ?')
+      .all(opts.model, idx.dims, Math.max(1, opts.queries ?? 20)) as Array<{ vector: Buffer; format: string }>
+  ).map((r) => ({ model: opts.model, dims: idx.dims, vector: new Float32Array(blobToVector(r.vector, r.format)) }));
+
+  let exactMs = 0;
+  let annMs = 0;
+  let recall = 0;
+  for (const q of queries) {
+    let t = performance.now();
+    const exact = scanEmbeddings(db, q, { topK });
+    exactMs += performance.now() - t;
+
+    t = performance.now();
+    const ann = scanEmbeddings(db, q, { topK, lists: annProbeLists(db, q, nprobe) });
+    annMs += performance.now() - t;
+
+    const annIds = new Set(ann.map((r) => r.row.id));
+    recall += exact.length ? exact.filter((r) => annIds.has(r.row.id)).length / exact.length : 1;
+  }
+
+  const n = queries.length || 1;
+  const round = (x: number) => Math.round(x * 1000) / 1000;
+  return {
+    model: opts.model,
+    vectors,
+    lists: idx.centroids.length,
+    nprobe,
+    queries: queries.length,
+    topK,
+    exactMsAvg: round(exactMs / n),
+    annMsAvg: round(annMs / n),
+    speedup: annMs > 0 ? round(exactMs / annMs) : 0,
+    recallAtK: round(recall / n),
+  };
+}
+
+// ============================================================================
+// Chunking (long memories)
+// ============================================================================
+
+export type ChunkOpts = {
+  chunkSize?: number; // Max characters per chunk, default 1000
+  overlap?: number;   // Characters of trailing context repeated in the next chunk, default 150
+};
+
+export type TextChunk = { seq: number; start: number; end: number; text: string };
+
+export type MemChunk = {
+  id: string; // `${item_id}#${seq}`
+  item_id: string;
+  seq: number;
+  start_offset: number; // Char offsets into the parent item's text
+  end_offset: number;
+  text: string;
+};
+
+export type ChunkResult = {
+  chunk: MemChunk; // Best-matching chunk of the item
+  item: MemItem;   // Parent item
+  snippetOffset: number; // Where the chunk starts in item.text
+  lexicalScore: number;
+  semanticScore: number | null;
+  score: number;
+};
+
+// Sentence ends (with closing quotes/brackets) followed by whitespace, or paragraph breaks.
+const SENTENCE_BOUNDARY = /[.!?…。！？]+["'”’)\]]*\s+|\n\s*\n\s*/g;
+
+/**
+ * Split text into chunks of at most `chunkSize` characters, cutting at sentence
+ * boundaries when possible (a sentence longer than a chunk is cut at whitespace).
+ * Consecutive chunks share up to `overlap` characters of whole sentences.
+ * Offsets refer to the original text.
+ */
+export function chunkText(text: string, opts?: ChunkOpts): TextChunk[] {
+  const size = Math.max(50, Math.floor(finiteOr(opts?.chunkSize, 1000)));
+  const overlap = Math.max(0, Math.min(Math.floor(finiteOr(opts?.overlap, 150)), Math.floor(size / 2)));
+
+  // Sentence spans [start, end), each including its trailing whitespace.
+  const sentences: Array<[number, number]> = [];
+  let last = 0;
+  for (const m of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = m.index! + m[0].length;
+    sentences.push([last, end]);
+    last = end;
+  }
+  if (last < text.length) sentences.push([last, text.length]);
+
+  // Over-long sentences are cut at the last whitespace that fits.
+  const spans: Array<[number, number]> = [];
+  for (let [start, end] of sentences) {
+    while (end - start > size) {
+      const window = text.slice(start, start + size);
+      const cut = Math.max(window.search(/\s+\S*$/), 0) || size;
+      spans.push([start, start + cut]);
+      start += cut;
+    }
+    spans.push([start, end]);
+  }
+
+  const chunks: TextChunk[] = [];
+  let i = 0;
+  while (i < spans.length) {
+    let j = i;
+    while (j + 1 < spans.length && spans[j + 1]![1] - spans[i]![0] <= size) j++;
+
+    const raw = text.slice(spans[i]![0], spans[j]![1]);
+    const lead = raw.length - raw.trimStart().length;
+    const body = raw.trim();
+    if (body) {
+      const start = spans[i]![0] + lead;
+      chunks.push({ seq: chunks.length, start, end: start + body.length, text: body });
+    }
+    if (j + 1 >= spans.length) break;
+
+    // Start the next chunk on the trailing sentences that fit in the overlap (always advancing).
+    let k = j + 1;
+    while (k - 1 > i && spans[j]![1] - spans[k - 1]![0] <= overlap) k--;
+    i = k;
+  }
+  return chunks;
+}
+
+function deleteItemChunks(db: Database.Database, itemId: string): number {
+  db.prepare('DELETE FROM chunk_embeddings WHERE chunk_id IN (SELECT id FROM item_chunks WHERE item_id = ?)').run(itemId);
+  return db.prepare('DELETE FROM item_chunks WHERE item_id = ?').run(itemId).changes;
+}
+
+function insertChunks(db: Database.Database, itemId: string, text: string, opts?: ChunkOpts): MemChunk[] {
+  const insert = db.prepare(
+    'INSERT INTO item_chunks (id, item_id, seq, start_offset, end_offset, text) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  return chunkText(text, opts).map((c) => {
+    const chunk: MemChunk = { id: `${itemId}#${c.seq}`, item_id: itemId, seq: c.seq, start_offset: c.start, end_offset: c.end, text: c.text };
+    insert.run(chunk.id, chunk.item_id, chunk.seq, chunk.start_offset, chunk.end_offset, chunk.text);
+    return chunk;
+  });
+}
+
+/**
+ * (Re)build the chunks of an item. Previous chunks and their embeddings are replaced.
+ * Returns an empty array if the item does not exist.
+ */
+export function chunkItem(db: Database.Database, itemId: string, opts?: ChunkOpts): MemChunk[] {
+  const item = getItem(db, itemId);
+  if (!item) return [];
+  let chunks: MemChunk[] = [];
+  db.transaction(() => {
+    deleteItemChunks(db, itemId);
+    chunks = insertChunks(db, itemId, item.text, opts);
+  })();
+  return chunks;
+}
+
+/**
+ * Chunk every item that has no chunks yet (all items with `force`).
+ * With `minLength`, shorter items are left whole (default 0: chunk everything).
+ */
+export function chunkItems(
+  db: Database.Database,
+  opts?: ChunkOpts & { force?: boolean; minLength?: number }
+): { items: number; chunks: number } {
+  const rows = db
+    .prepare(
+      `SELECT id FROM items i
+       WHERE length(i.text) >= ?
+         ${opts?.force ? '' : 'AND NOT EXISTS (SELECT 1 FROM item_chunks c WHERE c.item_id = i.id)'}
+       ORDER BY i.rowid`
+    )
+    .all(finiteOr(opts?.minLength, 0)) as Array<{ id: string }>;
+
+  let chunks = 0;
+  for (const r of rows) chunks += chunkItem(db, r.id, opts).length;
+  return { items: rows.length, chunks };
+}
+
+export function getItemChunks(db: Database.Database, itemId: string): MemChunk[] {
+  return db
+    .prepare('SELECT id, item_id, seq, start_offset, end_offset, text FROM item_chunks WHERE item_id = ? ORDER BY seq')
+    .all(itemId) as MemChunk[];
+}
+
+function storeChunkEmbedding(
+  db: Database.Database,
+  chunkId: string,
+  emb: Embedding,
+  format: EmbeddingFormat = 'f32'
+): void {
+  db.prepare(
+    `INSERT INTO chunk_embeddings (chunk_id, model, dims, vector, updated_at, format)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(chunk_id, model) DO UPDATE SET
+       dims=excluded.dims,
+       vector=excluded.vector,
+       updated_at=excluded.updated_at,
+       format=excluded.format`
+  ).run(chunkId, emb.model, emb.dims, vectorToBlob(emb.vector, format), Date.now(), format);
+}
+
+function rowToChunkCandidate(r: any): { chunk: MemChunk; item: MemItem } {
+  return {
+    chunk: {
+      id: r.chunk_id,
+      item_id: r.id,
+      seq: r.seq,
+      start_offset: r.start_offset,
+      end_offset: r.end_offset,
+      text: r.chunk_text,
+    },
+    item: {
+      id: r.id,
+      created_at: r.created_at,
+      source: r.source,
+      source_id: r.source_id,
+      title: r.title,
+      text: r.text,
+      tags: r.tags,
+      meta: r.meta,
+      entity_id: r.entity_id,
+      process_id: r.process_id,
+      session_id: r.session_id,
+    },
+  };
+}
+
+const CHUNK_COLUMNS = `c.id AS chunk_id, c.seq, c.start_offset, c.end_offset, c.text AS chunk_text,
+            i.id, i.created_at, i.source, i.source_id, i.title, i.text, i.tags, i.meta,
+            i.entity_id, i.process_id, i.session_id`;
+
+/**
+ * Search item chunks and return, per item, the best chunk with its parent item and
+ * the chunk's offset in the parent text. Lexical (bm25 over chunk FTS) when `cfg` is
+ * null; otherwise lexical hits and the nearest stored chunk vectors are fused like
+ * hybridSearch's linear mode (missing chunk vectors are embedded on the fly).
+ * Only chunked items are searched (see chunkItem / chunkItems).
+ */
+export async function searchChunks(
+  db: Database.Database,
+  cfg: MemConfig | null,
+  query: string,
+  opts?: {
+    topK?: number;
+    candidates?: number;
+    semanticWeight?: number;
+    filter?: FilterOpts;
+    trackAccess?: boolean;
+    semanticQuery?: string; // text to embed when `query` is a compiled FTS expression (default: query)
+    onWarning?: (w: SearchWarning) => void;
+  }
+): Promise<ChunkResult[]> {
+  const topK = opts?.topK ?? 10;
+  const candidates = opts?.candidates ?? Math.max(50, topK * 3);
+  const w = cfg ? (opts?.semanticWeight ?? 0.7) : 0;
+  const where = filterToSql(opts?.filter, 'i');
+
+  let lexRows: any[];
+  try {
+    lexRows = runFtsMatch(query, () => db
+      .prepare(
+        `SELECT ${CHUNK_COLUMNS}, bm25(item_chunks_fts) AS bm25
+         FROM item_chunks_fts
+         JOIN item_chunks c ON c.rowid = item_chunks_fts.rowid
+         JOIN items i ON i.id = c.item_id
+         WHERE item_chunks_fts MATCH ?${where.sql ? ` AND ${where.sql}` : ''}
+         ORDER BY bm25 ASC
+         LIMIT ?`
+      )
+      .all(query, ...where.params, candidates)) as any[];
+  } catch (e: any) {
+    // Chunk FTS only indexes chunk text: title:/tags: filters name columns it does not have.
+    if (/: no such column: /.test(String(e?.message ?? e))) {
+      throw new Error(`Invalid query ${JSON.stringify(query)}: column filters (title:/tags:) are not supported for chunk search`);
+    }
+    throw e;
+  }
+
+  const pool = new Map<string, { chunk: MemChunk; item: MemItem; lexicalScore: number; semanticScore: number | null }>();
+  for (const r of lexRows) pool.set(r.chunk_id, { ...rowToChunkCandidate(r), lexicalScore: -Number(r.bm25), semanticScore: null });
+
+  if (cfg) {
+    let queryEmb: Embedding | null = null;
+    try {
+      queryEmb = await fetchEmbedding(cfg, opts?.semanticQuery ?? query);
+    } catch (e: any) {
+      opts?.onWarning?.({
+        code: 'embedding_unavailable',
+        message: `Query embedding failed, lexical-only results: ${String(e?.message ?? e)}`,
+      });
+    }
+
+    if (queryEmb) {
+      const qv = queryEmb.vector;
+      // Nearest stored chunk vectors (streamed, bounded top-K) join the lexical hits.
+      const near: Array<{ row: any; sem: number }> = [];
+      const stmt = db.prepare(
+        `SELECT e.vector, e.format, ${CHUNK_COLUMNS}
+         FROM chunk_embeddings e
+         JOIN item_chunks c ON c.id = e.chunk_id
+         JOIN items i ON i.id = c.item_id
+         WHERE e.model = ? AND e.dims = ?${where.sql ? ` AND ${where.sql}` : ''}`
+      );
+      for (const row of stmt.iterate(queryEmb.model, queryEmb.dims, ...where.params) as Iterable<any>) {
+        const sem = cosine(qv, blobToVector(row.vector as Buffer, row.format));
+        const existing = pool.get(row.chunk_id);
+        if (existing) {
+          existing.semanticScore = sem;
+          continue;
+        }
+        if (near.length === candidates && sem <= near[near.length - 1]!.sem) continue;
+        let i = near.length;
+        while (i > 0 && near[i - 1]!.sem < sem) i--;
+        near.splice(i, 0, { row, sem });
+        if (near.length > candidates) near.pop();
+      }
+      for (const { row, sem } of near) pool.set(row.chunk_id, { ...rowToChunkCandidate(row), lexicalScore: 0, semanticScore: sem });
+
+      // Lexical hits without a (current) vector are embedded now.
+      const missing = [...pool.values()].filter((c) => c.semanticScore === null);
+      if (missing.length > 0) {
+        try {
+          const embs = await fetchEmbeddings(cfg, missing.map((c) => c.chunk.text));
+          db.transaction(() => {
+            missing.forEach((c, i) => {
+              storeChunkEmbedding(db, c.chunk.id, embs[i]!, cfg.embeddingStorage);
+              c.semanticScore = embs[i]!.vector.length === qv.length ? cosine(qv, embs[i]!.vector) : null;
+            });
+          })();
+        } catch (e: any) {
+          opts?.onWarning?.({
+            code: 'embedding_failed',
+            message: `Embedding ${missing.length} chunk(s) failed, scored without semantics: ${String(e?.message ?? e)}`,
+            count: missing.length,
+          });
+        }
+      }
+    }
+  }
+
+  const all = [...pool.values()];
+  const lexScores = all.map((c) => c.lexicalScore);
+  const minLex = Math.min(...lexScores);
+  const denomLex = Math.max(...lexScores) - minLex || 1;
+  const scored = all
+    .map((c) => {
+      const lexNorm = (c.lexicalScore - minLex) / denomLex;
+      const semNorm = c.semanticScore === null ? 0 : (c.semanticScore + 1) / 2;
+      return { ...c, score: cfg ? (1 - w) * lexNorm + w * semNorm : c.lexicalScore };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  // Best chunk per parent item.
+  const seen = new Set<string>();
+  const results: ChunkResult[] = [];
+  for (const c of scored) {
+    if (seen.has(c.item.id)) continue;
+    seen.add(c.item.id);
+    results.push({ ...c, snippetOffset: c.chunk.start_offset });
+    if (results.length === topK) break;
+  }
+
+  if (opts?.trackAccess !== false) recordAccess(db, 'ltm', results.map((r) => r.item.id));
+  return results;
+}
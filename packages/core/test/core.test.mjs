@@ -11,6 +11,54 @@ import {
   lexicalSearch,
   hybridSearch,
   escapeFts5Query,
+  buildFtsQuery,
+  searchItems,
+  getFtsTokenizer,
+  setFtsTokenizer,
+  updateItem,
+  deleteItem,
+  insertFact,
+  upsertFact,
+  dedupeFacts,
+  getFactSourceIds,
+  getFactsBySubject,
+  setPredicateCardinality,
+  deleteFact,
+  getAllFacts,
+  addItem,
+  extractAndStoreFacts,
+  getFactsBySourceItem,
+  backfillFacts,
+  extractFactsWithPatterns,
+  parseFactPatternPack,
+  evaluateFactPatterns,
+  getFactProvenance,
+  getEntityGraph,
+  getGraphStats,
+  findPaths,
+  exportGraphJson,
+  runMigrations,
+  stm_insert,
+  stm_recall,
+  stm_consolidate,
+  stm_maintain,
+  hybridSearchFiltered,
+  semanticSearch,
+  embedMissing,
+  addItemWithEmbedding,
+  deleteEmbeddingsByModel,
+  fetchEmbeddings,
+  registerEmbeddingProvider,
+  compactEmbeddings,
+  getEmbeddingStats,
+  buildAnnIndex,
+  dropAnnIndex,
+  listAnnIndexes,
+  benchmarkAnnSearch,
+  chunkText,
+  chunkItem,
+  getItemChunks,
+  searchChunks,
 } from '../dist/index.js';
 
 async function withTempDb(fn) {
@@ -33,6 +81,82 @@ test('escapeFts5Query: simple tokens unchanged; others become phrase', () => {
   assert.equal(escapeFts5Query('say "hi"'), '"say ""hi"""');
 });
 
+test('buildFtsQuery: boolean mode parses AND/OR/NOT, groups, prefixes, phrases and columns', () => {
+  assert.equal(buildFtsQuery('deploy AND (staging OR prod)', 'boolean'), '"deploy" AND ("staging" OR "prod")');
+  assert.equal(buildFtsQuery('migr* title:"release notes" -x', 'boolean'), '"migr"* AND title : "release notes" AND "-x"');
+  assert.equal(buildFtsQuery('deploy AND NOT staging', 'boolean'), '"deploy" NOT "staging"');
+  assert.equal(buildFtsQuery('tags:(a OR b) c', 'boolean'), 'tags : ("a" OR "b") AND "c"');
+  assert.equal(buildFtsQuery('a:b', 'phrase'), '"a:b"');
+  assert.equal(buildFtsQuery('NEAR(a b, 2)', 'fts5'), 'NEAR(a b, 2)');
+  assert.equal(buildFtsQuery('hello:world'), '"hello:world"');
+
+  assert.throws(() => buildFtsQuery('deploy AND (staging', 'boolean'), /missing "\)" for "\(" at position 11/);
+  assert.throws(() => buildFtsQuery('NOT staging', 'boolean'), /NOT needs a term on its left/);
+  assert.throws(() => buildFtsQuery('deploy OR', 'boolean'), /expected a term at end of query/);
+  assert.throws(() => buildFtsQuery('say "hi', 'boolean'), /unterminated quote at position 4/);
+  assert.throws(() => buildFtsQuery('title:', 'boolean'), /title: must be followed by/);
+  assert.throws(() => buildFtsQuery('x', 'regex'), /Invalid query mode/);
+});
+
+test('searchItems: query modes match as expected; bad raw FTS5 gets a readable error', async () => {
+  await withTempDb(async (db) => {
+    insertItem(db, { id: '1', text: 'deploy to staging', source: null, source_id: null, title: 'Release notes', tags: 'ops', meta: null });
+    insertItem(db, { id: '2', text: 'deploy to prod after migration', source: null, source_id: null, title: null, tags: 'ops', meta: null });
+    insertItem(db, { id: '3', text: 'staging cluster is down', source: null, source_id: null, title: null, tags: null, meta: null });
+
+    const ids = (q, queryMode) => searchItems(db, q, 10, undefined, undefined, { queryMode }).results.map((r) => r.item.id).sort();
+    assert.deepEqual(ids('deploy AND (staging OR prod)', 'boolean'), ['1', '2']);
+    assert.deepEqual(ids('deploy NOT staging', 'boolean'), ['2']);
+    assert.deepEqual(ids('migr*', 'boolean'), ['2']);
+    assert.deepEqual(ids('title:release', 'boolean'), ['1']);
+    assert.deepEqual(ids('deploy AND (staging OR prod)', 'simple'), []);
+    assert.deepEqual(ids('NEAR(deploy staging, 1)', 'fts5'), ['1']);
+
+    assert.throws(() => ids('deploy AND (', 'fts5'), /^Error: Invalid query "deploy AND \(": syntax error/);
+    assert.throws(() => ids('author:x', 'fts5'), /Invalid query .*no such column: author/);
+  });
+});
+
+test('FTS tokenizers: chosen at init, rebuilt by migration with existing rows and triggers intact', async () => {
+  await withTempDb(async (db, dbPath) => {
+    assert.equal(getFtsTokenizer(db), 'unicode61');
+    insertItem(db, { id: '1', text: 'Nguyễn préfère le thé', source: null, source_id: null, title: null, tags: null, meta: null });
+    stm_insert(db, { id: 's1', text: 'he prefers tea' });
+    insertItem(db, { id: '2', text: 'Loïc prefers running', source: null, source_id: null, title: null, tags: null, meta: null });
+    const ids = (q) => lexicalSearch(db, q, 10, { trackAccess: false }).map((r) => r.item.id).sort();
+
+    assert.deepEqual(ids('prefere'), ['1']);
+    assert.deepEqual(ids('nguyen'), []); // stacked diacritics are kept by the default
+    assert.deepEqual(ids('prefer'), []);
+
+    assert.deepEqual(setFtsTokenizer(db, 'folded').rebuilt, ['items_fts', 'stm_items_fts', 'item_chunks_fts']);
+    assert.equal(getFtsTokenizer(db), 'folded');
+    assert.deepEqual(ids('nguyen'), ['1']);
+
+    setFtsTokenizer(db, 'porter');
+    assert.deepEqual(ids('prefer'), ['1', '2']); // "prefers" and folded "prefere" both stem to "prefer"
+    assert.equal(stm_recall(db, 'prefer', { includeLtm: false }).length, 1);
+
+    setFtsTokenizer(db, 'trigram');
+    assert.deepEqual(ids('efer'), ['1', '2']);
+    // Triggers still feed the rebuilt index
+    insertItem(db, { id: '3', text: 'reference card', source: null, source_id: null, title: null, tags: null, meta: null });
+    assert.deepEqual(ids('efer'), ['1', '2', '3']);
+
+    // Same tokenizer => no-op; re-opening keeps the choice, initSchema/runMigrations don't reset it
+    assert.deepEqual(setFtsTokenizer(db, 'trigram').rebuilt, []);
+    const db2 = openDb(dbPath);
+    initSchema(db2);
+    runMigrations(db2);
+    assert.equal(getFtsTokenizer(db2), 'trigram');
+    initSchema(db2, { tokenizer: 'folded' });
+    assert.equal(getFtsTokenizer(db2), 'folded');
+    db2.close();
+
+    assert.throws(() => setFtsTokenizer(db, 'icu'), /Unknown FTS tokenizer: icu/);
+  });
+});
+
 test('lexicalSearch: returns inserted item', async () => {
   await withTempDb(async (db) => {
     insertItem(db, { id: '1', text: 'Bonjour Paris', source: 'test', source_id: 'a', title: 'salut', tags: 'fr', meta: null });
@@ -42,6 +166,32 @@ test('lexicalSearch: returns inserted item', async () => {
   });
 });
 
+test('lexicalSearch: snippet and highlight mark matches with configurable markers', async () => {
+  await withTempDb(async (db) => {
+    const filler = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    insertItem(db, { id: '1', text: `${filler} the deploy key lives in vault ${filler}`, source: null, source_id: null, title: null, tags: null, meta: null });
+
+    const plain = lexicalSearch(db, 'deploy', 5);
+    assert.equal(plain[0].snippet, undefined);
+    assert.equal(plain[0].highlight, undefined);
+
+    const [hit] = lexicalSearch(db, 'deploy', 5, { highlight: { snippet: true, highlight: true, open: '<b>', close: '</b>', tokens: 6 } });
+    assert.match(hit.snippet, /<b>deploy<\/b>/);
+    assert.ok(hit.snippet.startsWith('…') && hit.snippet.endsWith('…'));
+    assert.ok(hit.snippet.length < 80);
+    assert.equal(hit.highlight, hit.item.text.replace('deploy', '<b>deploy</b>'));
+
+    const [stm] = stm_recall(db, 'deploy', { highlight: { snippet: true } });
+    assert.equal(stm.scope, 'ltm');
+    assert.match(stm.snippet, /\*\*deploy\*\*/);
+
+    stm_insert(db, { id: 's1', text: 'rotate the deploy key tonight' });
+    const [stmHit] = stm_recall(db, 'deploy', { includeLtm: false, highlight: { highlight: true } });
+    assert.equal(stmHit.scope, 'stm');
+    assert.equal(stmHit.highlight, 'rotate the **deploy** key tonight');
+  });
+});
+
 test('hybridSearch: if query embedding fetch fails, returns lexical-only (no throw)', async () => {
   const originalFetch = globalThis.fetch;
   globalThis.fetch = async () => {
@@ -107,3 +257,844 @@ test('hybridSearch: uses semantic score when embeddings succeed; caches item emb
     globalThis.fetch = originalFetch;
   }
 });
+
+test('updateItem/deleteItem: keep FTS in sync and cascade to embeddings and facts', async () => {
+  await withTempDb(async (db) => {
+    insertItem(db, { id: '1', text: 'alpha bravo', source: null, source_id: null, title: null, tags: null, meta: null });
+    db.prepare('INSERT INTO embeddings (item_id, model, dims, vector, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run('1', 'bge-m3', 1, Buffer.alloc(4), Date.now());
+    insertFact(db, { id: 'f1', subject: 'a', predicate: 'is', object: 'b', confidence: 0.5, source_item_id: '1', entity_id: null });
+
+    const updated = updateItem(db, '1', { text: 'charlie delta', tags: 'x' });
+    assert.equal(updated.text, 'charlie delta');
+    assert.equal(updated.tags, 'x');
+    assert.equal(lexicalSearch(db, 'alpha', 5).length, 0);
+    assert.equal(lexicalSearch(db, 'charlie', 5)[0].item.id, '1');
+    assert.equal(db.prepare('SELECT COUNT(*) AS c FROM embeddings').get().c, 0);
+
+    assert.equal(updateItem(db, 'missing', { text: 'x' }), null);
+
+    const out = deleteItem(db, '1', { cascadeFacts: true });
+    assert.deepEqual(out, { deleted: true, deletedEmbeddings: 0, deletedFacts: 1 });
+    assert.equal(lexicalSearch(db, 'charlie', 5).length, 0);
+    assert.equal(getAllFacts(db).length, 0);
+  });
+});
+
+test('upsertFact: merges normalized triples, reinforces per independent source; dedupeFacts cleans up inserts', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    for (const id of ['i1', 'i2', 'i3']) insertItem(db, { id, text: `loic works at fasst (${id})`, source: null, source_id: null, title: null, tags: null, meta: null });
+    const fact = (id, over) => ({ id, subject: 'Loic', predicate: 'works_at', object: 'Fasst', confidence: 0.5, source_item_id: null, entity_id: null, ...over });
+
+    const a = upsertFact(db, fact('f1', { source_item_id: 'i1' }));
+    assert.equal(a.created, true);
+    const b = upsertFact(db, fact('f2', { subject: '  loic ', object: 'FASST', source_item_id: 'i2', entity_id: 'loic' }));
+    assert.deepEqual([b.created, b.reinforced, b.fact.id], [false, true, 'f1']);
+    assert.equal(b.fact.confidence, 0.75);
+    assert.equal(b.fact.entity_id, 'loic');
+    // Same source again: no reinforcement; no source: keeps the max
+    assert.equal(upsertFact(db, fact('f3', { source_item_id: 'i2' })).fact.confidence, 0.75);
+    assert.equal(upsertFact(db, fact('f4', { confidence: 0.9 })).fact.confidence, 0.9);
+    assert.equal(getAllFacts(db).length, 1);
+    assert.deepEqual(getFactSourceIds(db, 'f1'), ['i1', 'i2']);
+
+    // Legacy duplicates from plain inserts
+    insertFact(db, fact('d1', { subject: 'Akasha', predicate: 'is', object: 'helpful', source_item_id: 'i1' }));
+    insertFact(db, fact('d2', { subject: 'akasha', predicate: 'IS', object: 'helpful ', source_item_id: 'i1' }));
+    insertFact(db, fact('d3', { subject: 'Akasha', predicate: 'is', object: 'helpful', source_item_id: 'i3' }));
+    const dry = dedupeFacts(db, { dryRun: true });
+    assert.deepEqual(dry.merged.map((m) => [m.id, m.removed, m.confidence, m.source_item_ids]), [['d1', ['d2', 'd3'], 0.75, ['i1', 'i3']]]);
+    assert.equal(getAllFacts(db).length, 4);
+    assert.equal(dedupeFacts(db).removed, 2);
+    assert.deepEqual(getAllFacts(db).map((f) => f.id).sort(), ['d1', 'f1']);
+    assert.deepEqual(getFactSourceIds(db, 'd1'), ['i1', 'i3']);
+    assert.equal(dedupeFacts(db).groups, 0);
+
+    // Deleting one supporting item keeps the fact with its other source
+    assert.equal(deleteItem(db, 'i1', { cascadeFacts: true }).deletedFacts, 0);
+    assert.deepEqual(getFactSourceIds(db, 'd1'), ['i3']);
+    assert.equal(deleteItem(db, 'i3', { cascadeFacts: true }).deletedFacts, 1);
+    assert.deepEqual(getAllFacts(db).map((f) => f.id), ['f1']);
+  });
+});
+
+test('facts: single-valued predicates supersede old values; asOf queries see the history', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    const t = (d) => Date.parse(`${d}T00:00:00Z`);
+    const fact = (id, predicate, object, validFrom) => ({
+      id, subject: 'Loïc', predicate, object, confidence: 0.7, source_item_id: null, entity_id: null, valid_from: t(validFrom),
+    });
+
+    insertFact(db, fact('f1', 'works_at', 'Fasst', '2020-01-01'));
+    insertFact(db, fact('f2', 'works_at', 'Acme', '2024-06-01'));
+    insertFact(db, fact('p1', 'prefers', 'tea', '2020-01-01'));
+    insertFact(db, fact('p2', 'prefers', 'short answers', '2021-01-01'));
+    // Backfilled history: older than the current value => stored as already superseded
+    insertFact(db, fact('f0', 'works_at', 'Startup', '2018-01-01'));
+
+    const byId = Object.fromEntries(getFactsBySubject(db, 'Loïc').map((f) => [f.id, f]));
+    assert.deepEqual([byId.f1.valid_to, byId.f1.superseded_by], [t('2024-06-01'), 'f2']);
+    assert.deepEqual([byId.f0.valid_to, byId.f0.superseded_by], [t('2020-01-01'), 'f1']);
+    assert.equal(byId.f2.valid_to, null);
+    assert.equal(byId.p1.valid_to, null); // multi-valued
+
+    const at = (d) => getFactsBySubject(db, 'Loïc', 100, { asOf: t(d) }).map((f) => f.id).sort();
+    assert.deepEqual(at('2022-01-01'), ['f1', 'p1', 'p2']);
+    assert.deepEqual(at('2025-01-01'), ['f2', 'p1', 'p2']);
+    assert.deepEqual(at('2019-06-01'), ['f0']);
+    // A value inserted in between splits the period it falls into
+    insertFact(db, fact('f4', 'works_at', 'Consulting', '2022-06-01'));
+    assert.deepEqual(at('2022-01-01'), ['f1', 'p1', 'p2']);
+    assert.deepEqual(at('2023-01-01'), ['f4', 'p1', 'p2']);
+    assert.deepEqual(at('2025-01-01'), ['f2', 'p1', 'p2']);
+
+    // Re-asserting an old value starts a new validity period instead of reviving the old row
+    const again = upsertFact(db, fact('f3', 'works_at', 'Fasst', '2025-03-01'));
+    assert.equal(again.created, true);
+    assert.deepEqual(at('2025-06-01'), ['f3', 'p1', 'p2']);
+
+    // Deleting the current value reopens the one it replaced
+    deleteFact(db, 'f3');
+    assert.deepEqual(at('2025-06-01'), ['f2', 'p1', 'p2']);
+    // Deleting a value in the middle of the chain hands its period to the one before, not "now"
+    deleteFact(db, 'f4');
+    assert.deepEqual(at('2023-01-01'), ['f1', 'p1', 'p2']);
+    assert.deepEqual(at('2025-06-01'), ['f2', 'p1', 'p2']);
+    const f1 = getFactsBySubject(db, 'Loïc').find((f) => f.id === 'f1');
+    assert.deepEqual([f1.valid_to, f1.superseded_by], [t('2024-06-01'), 'f2']);
+
+    // Making a predicate single-valued resolves existing contradictions (latest wins)
+    assert.equal(setPredicateCardinality(db, 'prefers', 'single').superseded, 1);
+    assert.deepEqual(getFactsBySubject(db, 'Loïc', 100, { asOf: Date.now() }).map((f) => f.id).sort(), ['f2', 'p2']);
+    assert.throws(() => setPredicateCardinality(db, 'prefers', 'many'), /Invalid cardinality/);
+
+    // The graph shows current facts by default; asOf gives a past snapshot with validity info
+    assert.deepEqual(getEntityGraph(db, 'Loïc').map((e) => e.fact_id).sort(), ['f2', 'p2']);
+    const past = getEntityGraph(db, 'Loïc', { asOf: t('2022-01-01') });
+    assert.deepEqual(past.map((e) => [e.fact_id, e.valid_to, e.superseded_by]).sort(), [
+      ['f1', t('2024-06-01'), 'f2'],
+      ['p2', null, null],
+    ]);
+    assert.equal(getGraphStats(db).totalFacts, 2);
+    assert.deepEqual(findPaths(db, 'Loïc', 'Fasst'), []);
+  });
+});
+
+test('facts: single-valued supersession matches subjects the way dedup normalizes them', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    const t = (d) => Date.parse(`${d}T00:00:00Z`);
+    const fact = (id, subject, predicate, object, validFrom) => ({
+      id, subject, predicate, object, confidence: 0.7, source_item_id: null, entity_id: null, valid_from: t(validFrom),
+    });
+
+    insertFact(db, fact('f1', 'Loïc', 'works_at', 'Fasst', '2020-01-01'));
+    insertFact(db, fact('f2', ' loïc ', 'works_at', 'Acme', '2024-06-01'));
+    const current = getAllFacts(db, undefined, 100, { asOf: Date.now() }).filter((f) => f.predicate === 'works_at');
+    assert.deepEqual(current.map((f) => f.id), ['f2']);
+
+    insertFact(db, fact('p1', 'Loïc', 'prefers', 'tea', '2020-01-01'));
+    insertFact(db, fact('p2', 'LOÏC', 'prefers', 'coffee', '2021-01-01'));
+    assert.equal(setPredicateCardinality(db, 'prefers', 'single').superseded, 1);
+    const prefs = getAllFacts(db, undefined, 100, { asOf: Date.now() }).filter((f) => f.predicate === 'prefers');
+    assert.deepEqual(prefs.map((f) => f.id), ['p2']);
+  });
+});
+
+test('extractAndStoreFacts: stores facts linked to their item; addItem hook and backfill are idempotent', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null, process_id: null, session_id: null };
+    const i1 = addItem(db, { ...base, id: 'i1', text: 'Loic works at Fasst. Loic prefers tea.', entity_id: 'loic' }, { extractFacts: true });
+    const facts = getFactsBySourceItem(db, 'i1');
+    assert.deepEqual(facts.map((f) => f.predicate).sort(), ['prefers', 'works_at']);
+    assert.ok(facts.every((f) => f.source_item_id === 'i1' && f.entity_id === 'loic' && f.valid_from === i1.created_at));
+
+    const rerun = extractAndStoreFacts(db, 'i1');
+    assert.deepEqual([rerun.extracted, rerun.created, rerun.reinforced], [2, 0, 0]);
+    assert.equal(getAllFacts(db).length, 2);
+    assert.equal(extractAndStoreFacts(db, 'missing'), null);
+
+    addItem(db, { ...base, id: 'i2', text: 'Loic prefers tea, always.', entity_id: null });
+    addItem(db, { ...base, id: 'i3', text: 'Nothing to see here.', entity_id: null });
+    const out = backfillFacts(db, { batchSize: 1 });
+    assert.deepEqual(out, { scanned: 2, itemsWithFacts: 1, created: 0, reinforced: 1 });
+    assert.deepEqual(getFactsBySourceItem(db, 'i2').map((f) => f.predicate), ['prefers']);
+    assert.equal(backfillFacts(db).scanned, 1); // i3 has no facts, so it is scanned again
+    assert.equal(backfillFacts(db, { force: true }).created, 0);
+  });
+});
+
+test('extractAndStoreFacts: re-extracting an item whose fact was superseded does not duplicate history', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null, process_id: null, session_id: null, entity_id: null };
+    addItem(db, { ...base, id: 'old', text: 'Loic works at Fasst.', created_at: Date.parse('2020-01-01') }, { extractFacts: true });
+    addItem(db, { ...base, id: 'new', text: 'Loic works at Acme.', created_at: Date.parse('2024-01-01') }, { extractFacts: true });
+    const [fasst] = getFactsBySourceItem(db, 'old');
+    assert.equal(fasst.superseded_by, getFactsBySourceItem(db, 'new')[0].id);
+
+    const again = extractAndStoreFacts(db, 'old');
+    assert.deepEqual([again.created, again.reinforced, again.facts[0].id], [0, 0, fasst.id]);
+    assert.equal(backfillFacts(db, { force: true }).created, 0);
+    assert.equal(getAllFacts(db).length, 2);
+  });
+});
+
+test('getFactProvenance: traces facts to their items and extractors; graph edges carry fact and source ids', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null, process_id: null, session_id: null };
+    addItem(db, { ...base, id: 'i1', text: 'Loic works at Fasst.', entity_id: 'loic' }, { extractFacts: true });
+    addItem(db, { ...base, id: 'i2', text: 'Loic works at Fasst, still.', entity_id: null }, { extractFacts: true });
+    const manual = upsertFact(db, {
+      id: 'm1', subject: 'Loic', predicate: 'likes', object: 'tea', confidence: 0.9, source_item_id: null, entity_id: null, extractor: 'manual',
+    }).fact;
+
+    const [fact] = getFactsBySourceItem(db, 'i1');
+    const why = getFactProvenance(db, fact.id);
+    assert.equal(why.extractor, 'pattern:en/works_at');
+    assert.deepEqual(why.sources.map((s) => [s.item_id, s.item.text, s.extractor]), [
+      ['i1', 'Loic works at Fasst.', 'pattern:en/works_at'],
+      ['i2', 'Loic works at Fasst, still.', 'pattern:en/works_at'],
+    ]);
+    assert.deepEqual(getFactProvenance(db, manual.id).sources, []);
+    assert.equal(getFactProvenance(db, manual.id).extractor, 'manual');
+    assert.equal(getFactProvenance(db, 'missing'), null);
+
+    const edges = getEntityGraph(db, 'Loic');
+    assert.deepEqual(edges.map((e) => [e.fact_id, e.source_item_ids]).sort(), [[fact.id, ['i1', 'i2']], ['m1', []]]);
+    const exported = exportGraphJson(db, { entity: 'Loic' });
+    assert.deepEqual(exported.edges.find((e) => e.id === fact.id).source_item_ids, ['i1', 'i2']);
+  });
+});
+
+test('fact pattern packs: default en/fr rules, custom JSON packs and the evaluation harness', () => {
+  const triples = (text, entityId, opts) =>
+    extractFactsWithPatterns(text, entityId, opts).map((f) => `${f.subject}|${f.predicate}|${f.object}`).sort();
+
+  assert.deepEqual(triples('Loïc also works for Acme Corp and lives in Paris. It is a good day. This is it.'), [
+    'Loïc|works_at|Acme Corp',
+  ]);
+  assert.deepEqual(triples("I live in Lyon, and my email is me@example.com. Marie's birthday is on March 3, 1990.", 'loic'), [
+    'Marie|birthday|March 3, 1990',
+    'loic|email|me@example.com',
+    'loic|lives_in|Lyon',
+  ]);
+  assert.deepEqual(triples("J'habite à Nantes. Sophie est une développeuse. Il est un bon gars.", 'loic', { languages: ['fr'] }), [
+    'Sophie|is|développeuse',
+    'loic|lives_in|Nantes',
+  ]);
+  assert.deepEqual(triples('I work at Fasst.'), []); // first-person rules need the speaker
+
+  const pack = parseFactPatternPack(JSON.stringify({
+    name: 'custom',
+    stopwords: ['nobody'],
+    rules: [{ id: 'owns', pattern: String.raw`(?<owner>\p{L}+) owns an? (?<thing>[\p{L} ]+?)(?=[.,]|$)`, predicate: 'owns', subject: 'owner', object: 'thing', confidence: 0.6 }],
+  }));
+  assert.deepEqual(triples('Tom owns a red bike. Nobody owns a boat.', undefined, { packs: [pack] }), ['Tom|owns|red bike']);
+  assert.throws(() => parseFactPatternPack('{"name":"x","rules":[{"id":"r","pattern":"(a","predicate":"p","subject":1,"object":1,"confidence":0.5}]}'),
+    /Invalid pattern pack "x": rule "r": Invalid regular expression/);
+  assert.throws(() => parseFactPatternPack({ name: 'x', rules: [{ id: 'r', pattern: '(a)', predicate: 'p', subject: 1, object: 2, confidence: 0.5 }] }),
+    /"object" must name a capture group/);
+  assert.throws(() => parseFactPatternPack('{'), /Invalid pattern pack/);
+
+  const report = evaluateFactPatterns([
+    { text: 'Tom lives in Oslo. Tom is a pilot.', expect: [{ subject: 'tom', predicate: 'lives_in', object: 'oslo' }, { subject: 'Tom', predicate: 'likes', object: 'tea' }] },
+    { text: 'Paris is a city.' }, // reported, not scored
+  ]);
+  assert.deepEqual(report.totals, { samples: 2, expected: 2, extracted: 2, matched: 1, precision: 0.5, recall: 0.5 });
+  assert.deepEqual(report.samples[0].missing, [{ subject: 'Tom', predicate: 'likes', object: 'tea' }]);
+  assert.deepEqual(report.samples[0].unexpected.map((f) => f.rule), ['en/is_a']);
+  assert.deepEqual(report.rules['en/is_a'], { hits: 2, correct: 0 });
+});
+
+test('stm_consolidate: promotes important or recalled STM items into items, with provenance', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null, process_id: null };
+    stm_insert(db, { ...base, id: 's1', text: 'deploy staging tonight', importance: 0.9, entity_id: 'loic', session_id: 'sess' });
+    stm_insert(db, { ...base, id: 's2', text: 'coffee order', importance: 0.1, entity_id: null, session_id: null });
+    stm_insert(db, { ...base, id: 's3', text: 'weather chat', importance: 0.1, entity_id: null, session_id: null });
+    stm_recall(db, 'coffee', { includeLtm: false });
+    stm_recall(db, 'coffee', { includeLtm: false });
+
+    const dry = stm_consolidate(db, { minRecalls: 2, dryRun: true });
+    assert.deepEqual(dry.promoted.map((p) => p.stmId).sort(), ['s1', 's2']);
+    assert.equal(lexicalSearch(db, 'deploy', 5).length, 0);
+
+    const out = stm_consolidate(db, { minRecalls: 2 });
+    assert.equal(out.promoted.length, 2);
+    const hit = lexicalSearch(db, 'deploy', 5)[0].item;
+    assert.equal(hit.entity_id, 'loic');
+    assert.equal(hit.session_id, 'sess');
+    assert.equal(JSON.parse(hit.meta).stm.reason, 'importance');
+    assert.equal(db.prepare('SELECT COUNT(*) AS c FROM stm_items').get().c, 1);
+
+    // Promoted earlier with keepStm: a later run skips the row and removes it from STM.
+    stm_insert(db, { ...base, id: 's4', text: 'release notes', importance: 0.9, entity_id: null, session_id: null });
+    assert.equal(stm_consolidate(db, { keepStm: true }).promoted.length, 1);
+    assert.deepEqual(stm_consolidate(db, { keepStm: true }), { dryRun: false, promoted: [], skipped: 1 });
+    assert.equal(stm_consolidate(db, {}).skipped, 1);
+    assert.deepEqual(db.prepare('SELECT id FROM stm_items').all().map((r) => r.id), ['s3']);
+
+    // Same id as an unrelated item: promoted under a fresh id, the original kept in meta.stm.id.
+    insertItem(db, { ...base, id: 'note-1', text: 'cats', entity_id: null, session_id: null });
+    stm_insert(db, { ...base, id: 'note-1', text: 'dogs', importance: 0.95, entity_id: null, session_id: null });
+    const clash = stm_consolidate(db, { minImportance: 0.8, keepStm: true });
+    assert.equal(clash.skipped, 0);
+    assert.equal(clash.promoted.length, 1);
+    const fresh = clash.promoted[0].itemId;
+    assert.notEqual(fresh, 'note-1');
+    assert.equal(db.prepare('SELECT text FROM items WHERE id = ?').get('note-1').text, 'cats');
+    assert.equal(JSON.parse(db.prepare('SELECT meta FROM items WHERE id = ?').get(fresh).meta).stm.id, 'note-1');
+    // ...and counts as already promoted on the next run.
+    assert.deepEqual(stm_consolidate(db, { minImportance: 0.8 }), { dryRun: false, promoted: [], skipped: 1 });
+    assert.equal(db.prepare("SELECT COUNT(*) AS c FROM stm_items WHERE id = 'note-1'").get().c, 0);
+  });
+});
+
+test('access tracking: searches bump access counts and stm_maintain keeps recalled items', async () => {
+  await withTempDb(async (db) => {
+    runMigrations(db);
+    insertItem(db, { id: '1', text: 'alpha bravo', source: null, source_id: null, title: null, tags: null, meta: null });
+    lexicalSearch(db, 'alpha', 5);
+    lexicalSearch(db, 'alpha', 5, { trackAccess: false });
+    assert.equal(db.prepare('SELECT access_count FROM items WHERE id = ?').get('1').access_count, 1);
+
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null, entity_id: null, process_id: null, session_id: null };
+    const now = Date.now();
+    stm_insert(db, { ...base, id: 'used', text: 'coffee order', importance: 0.4, created_at: now });
+    stm_insert(db, { ...base, id: 'idle', text: 'weather chat', importance: 0.5, created_at: now });
+    for (let i = 0; i < 3; i++) stm_recall(db, 'coffee', { includeLtm: false, now });
+
+    const out = stm_maintain(db, { maxItems: 1, now });
+    assert.equal(out.deletedOverflow, 1);
+    assert.equal(db.prepare('SELECT id FROM stm_items').get().id, 'used');
+  });
+});
+
+test('hybridSearchFiltered: filters are applied in SQL and return full pages', async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => {
+    throw new Error('network down');
+  };
+
+  try {
+    await withTempDb(async (db) => {
+      runMigrations(db);
+      for (let i = 0; i < 30; i++) {
+        insertItem(db, {
+          id: `n${i}`, text: `alpha noise ${i}`, source: 'chat', source_id: null, title: null,
+          tags: 'misc', meta: null, session_id: 'other', created_at: 2000 + i,
+        });
+      }
+      for (let i = 0; i < 3; i++) {
+        insertItem(db, {
+          id: `s${i}`, text: `alpha target ${i}`, source: 'mail', source_id: null, title: null,
+          tags: 'work, urgent', meta: null, session_id: 'target', created_at: 1000 + i,
+        });
+      }
+
+      const cfg = { dbPath: ':memory:', ollamaTimeoutMs: 10 };
+      const out = await hybridSearchFiltered(db, cfg, 'alpha', { topK: 3, candidates: 5, filter: { session_id: 'target' } });
+      assert.equal(out.length, 3);
+      assert.ok(out.every((r) => r.item.session_id === 'target'));
+
+      assert.equal(lexicalSearch(db, 'alpha', 50, { filter: { tags: 'urgent,work' } }).length, 3);
+      assert.equal(lexicalSearch(db, 'alpha', 50, { filter: { source: 'chat', until: 2010 } }).length, 10);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('hybridSearch: since/until restrict candidates and recency half-life favors fresh items', async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => {
+    throw new Error('network down');
+  };
+
+  try {
+    await withTempDb(async (db) => {
+      const day = 86_400_000;
+      const now = 100 * day;
+      const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+      insertItem(db, { ...base, id: 'old', text: 'decision deploy deploy', created_at: now - 60 * day });
+      insertItem(db, { ...base, id: 'new', text: 'decision deploy', created_at: now - day });
+      // Unrelated items so that "deploy" gets a meaningful bm25 idf.
+      for (let i = 0; i < 5; i++) insertItem(db, { ...base, id: `x${i}`, text: `filler ${i}`, created_at: 0 });
+
+      const cfg = { dbPath: ':memory:', ollamaTimeoutMs: 10 };
+      const plain = await hybridSearch(db, cfg, 'deploy', { topK: 2, now });
+      assert.equal(plain[0].item.id, 'old');
+
+      const fresh = await hybridSearch(db, cfg, 'deploy', { topK: 2, now, recencyHalfLifeMs: 7 * day, recencyWeight: 0.5 });
+      assert.equal(fresh[0].item.id, 'new');
+      assert.ok(fresh[0].recencyScore > fresh[1].recencyScore);
+
+      const lastWeek = await hybridSearch(db, cfg, 'deploy', { topK: 2, now, since: now - 7 * day });
+      assert.deepEqual(lastWeek.map((r) => r.item.id), ['new']);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('hybridSearch: rrf fusion ranks by reciprocal ranks and reports per-component ranks', async () => {
+  const originalFetch = globalThis.fetch;
+  // Embedding of "alpha"-ish texts points along x, everything else along y.
+  globalThis.fetch = async (_url, opts) => {
+    const inputs = [].concat(JSON.parse(opts.body).input);
+    const data = inputs.map((input, index) => ({ index, embedding: /alpha|similar/.test(input) ? [1, 0] : [0, 1] }));
+    return { ok: true, status: 200, statusText: 'OK', async json() { return { data }; } };
+  };
+
+  try {
+    await withTempDb(async (db) => {
+      const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+      insertItem(db, { ...base, id: 'hit', text: 'alpha bravo', created_at: 1 });
+      insertItem(db, { ...base, id: 'sem', text: 'something similar', created_at: 2 });
+      insertItem(db, { ...base, id: 'far', text: 'charlie delta', created_at: 3 });
+
+      const cfg = { dbPath: ':memory:', ollamaTimeoutMs: 1000 };
+      const out = await hybridSearch(db, cfg, 'alpha', { topK: 3, fusion: 'rrf', rrfK: 10 });
+      assert.deepEqual(out.map((r) => r.item.id), ['hit', 'sem', 'far']);
+      assert.equal(out[0].lexicalRank, 1);
+      assert.equal(out[1].lexicalRank, null);
+      assert.equal(out[2].semanticRank, 3);
+      assert.ok(Math.abs(out[0].score - (0.3 / 11 + 0.7 / 11)) < 1e-9);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('semanticSearch: scans all stored embeddings for the query model', async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => ({
+    ok: true, status: 200, statusText: 'OK', async json() { return { data: [{ embedding: [1, 0, 0] }] }; },
+  });
+
+  const vec = (arr) => Buffer.from(new Float32Array(arr).buffer);
+  try {
+    await withTempDb(async (db) => {
+      const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+      insertItem(db, { ...base, id: 'a', text: 'no keyword overlap', created_at: 1 });
+      insertItem(db, { ...base, id: 'b', text: 'other', created_at: 2 });
+      insertItem(db, { ...base, id: 'c', text: 'other model', created_at: 3 });
+      const ins = db.prepare('INSERT INTO embeddings (item_id, model, dims, vector, updated_at) VALUES (?, ?, ?, ?, 0)');
+      ins.run('a', 'bge-m3', 3, vec([0.9, 0.1, 0]));
+      ins.run('b', 'bge-m3', 3, vec([0, 1, 0]));
+      ins.run('c', 'other-model', 2, vec([1, 0]));
+
+      const out = await semanticSearch(db, { dbPath: ':memory:' }, 'query', { topK: 5 });
+      assert.deepEqual(out.map((r) => r.item.id), ['a', 'b']);
+      assert.equal(out[0].semanticRank, 1);
+
+      const filtered = await semanticSearch(db, { dbPath: ':memory:' }, 'query', { topK: 5, minScore: 0.5 });
+      assert.deepEqual(filtered.map((r) => r.item.id), ['a']);
+
+      globalThis.fetch = async () => { throw new Error('connection refused'); };
+      const warnings = [];
+      const fallback = await semanticSearch(db, { dbPath: ':memory:' }, 'keyword', { topK: 5, onWarning: (w) => warnings.push(w) });
+      assert.deepEqual(fallback.map((r) => r.item.id), ['a']);
+      assert.deepEqual(warnings.map((w) => w.code), ['embedding_unavailable']);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('embedMissing: backfills items without an embedding in batches, resumes, and re-embeds with force', async () => {
+  const originalFetch = globalThis.fetch;
+  let calls = 0;
+  let failOn = null;
+  globalThis.fetch = async (_url, opts) => {
+    calls += 1;
+    const inputs = [].concat(JSON.parse(opts.body).input);
+    if (inputs.includes(failOn)) throw new Error('boom');
+    const data = inputs.map((_, index) => ({ index, embedding: [1, 0] }));
+    return { ok: true, status: 200, statusText: 'OK', async json() { return { data }; } };
+  };
+
+  try {
+    await withTempDb(async (db) => {
+      const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+      for (let i = 0; i < 5; i++) insertItem(db, { ...base, id: `i${i}`, text: `text ${i}` });
+      const cfg = { dbPath: ':memory:' };
+
+      failOn = 'text 3';
+      const progress = [];
+      const first = await embedMissing(db, cfg, { batchSize: 2, concurrency: 2, onProgress: (p) => progress.push(p.done) });
+      assert.equal(first.total, 5);
+      assert.equal(first.embedded, 3); // the batch [text 2, text 3] failed as a whole
+      assert.equal(first.failed, 2);
+      assert.deepEqual(progress, [2, 4, 5]);
+
+      failOn = null;
+      calls = 0;
+      const second = await embedMissing(db, cfg, { batchSize: 2 });
+      assert.equal(second.total, 2);
+      assert.equal(calls, 1);
+
+      calls = 0;
+      const forced = await embedMissing(db, cfg, { force: true });
+      assert.equal(forced.embedded, 5);
+      assert.equal(calls, 1);
+      assert.equal(db.prepare('SELECT COUNT(*) AS c FROM embeddings').get().c, 5);
+
+      // Non-numeric sizes fall back to the defaults instead of reaching LIMIT as NaN.
+      calls = 0;
+      const nan = await embedMissing(db, cfg, { force: true, batchSize: NaN, concurrency: NaN });
+      assert.equal(nan.embedded, 5);
+      assert.equal(calls, 1);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('addItemWithEmbedding: stores the vector on write, degrades to lexical-only when offline', async () => {
+  const originalFetch = globalThis.fetch;
+  let online = true;
+  globalThis.fetch = async () => {
+    if (!online) throw new Error('network down');
+    return { ok: true, status: 200, statusText: 'OK', async json() { return { data: [{ embedding: [0, 1, 0] }] }; } };
+  };
+
+  try {
+    await withTempDb(async (db) => {
+      const cfg = { dbPath: ':memory:' };
+      const a = await addItemWithEmbedding(db, cfg, { id: 'a', text: 'alpha', source: null, source_id: null, title: null, tags: null });
+      assert.deepEqual(a.embedding, { model: 'bge-m3', dims: 3 });
+
+      online = false;
+      const b = await addItemWithEmbedding(db, cfg, { id: 'b', text: 'bravo', source: null, source_id: null, title: null, tags: null });
+      assert.equal(b.embedding, null);
+      assert.equal(lexicalSearch(db, 'bravo', 5)[0].item.id, 'b');
+      assert.equal(db.prepare('SELECT COUNT(*) AS c FROM embeddings').get().c, 1);
+
+      // An unknown provider degrades the same way instead of rejecting after the item is stored
+      const c = await addItemWithEmbedding(db, { ...cfg, provider: 'typo' }, { id: 'c', text: 'charlie', source: null, source_id: null, title: null, tags: null });
+      assert.equal(c.embedding, null);
+      assert.equal(c.item.id, 'c');
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('embeddings: migrates to (item_id, model) keys so models coexist; a retired model can be dropped', async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => ({ ok: true, status: 200, statusText: 'OK', async json() { return { data: [{ embedding: [1, 0] }] }; } });
+
+  try {
+    await withTempDb(async (db) => {
+      // Pre-migration layout: one embedding per item.
+      db.exec(`
+        DROP TABLE embeddings;
+        CREATE TABLE embeddings (
+          item_id TEXT PRIMARY KEY, model TEXT NOT NULL, dims INTEGER NOT NULL,
+          vector BLOB NOT NULL, updated_at INTEGER NOT NULL,
+          FOREIGN KEY(item_id) REFERENCES items(id)
+        );
+      `);
+      insertItem(db, { id: 'a', text: 'alpha', source: null, source_id: null, title: null, tags: null, meta: null });
+      db.prepare('INSERT INTO embeddings VALUES (?, ?, ?, ?, ?)').run('a', 'old-model', 2, Buffer.alloc(8), 1);
+
+      runMigrations(db);
+      const pk = db.prepare('PRAGMA table_info(embeddings)').all().filter(c => c.pk > 0).map(c => c.name);
+      assert.deepEqual(pk, ['item_id', 'model']);
+      assert.equal(db.prepare('SELECT COUNT(*) AS c FROM embeddings').get().c, 1);
+
+      const res = await embedMissing(db, { dbPath: ':memory:', embeddingModel: 'new-model' });
+      assert.equal(res.embedded, 1);
+      const models = db.prepare('SELECT model FROM embeddings ORDER BY model').all().map(r => r.model);
+      assert.deepEqual(models, ['new-model', 'old-model']);
+
+      assert.equal(deleteEmbeddingsByModel(db, 'old-model'), 1);
+      assert.deepEqual(db.prepare('SELECT model FROM embeddings').all().map(r => r.model), ['new-model']);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('fetchEmbeddings: batches inputs, maps data[i].index, retries 429/5xx with backoff', async () => {
+  const originalFetch = globalThis.fetch;
+  const bodies = [];
+  let statuses = [429, 503];
+  let retryAfter = null;
+  globalThis.fetch = async (_url, opts) => {
+    const inputs = [].concat(JSON.parse(opts.body).input);
+    bodies.push(inputs);
+    const status = statuses.shift();
+    if (status) {
+      const headers = { get: (name) => (name === 'retry-after' ? retryAfter : null) };
+      return { ok: false, status, statusText: 'Busy', headers, async text() { return ''; } };
+    }
+    // Answer out of order: the client must place vectors by index.
+    const data = inputs.map((input, index) => ({ index, embedding: [Number(input.slice(1))] })).reverse();
+    return { ok: true, status: 200, statusText: 'OK', async json() { return { data }; } };
+  };
+
+  try {
+    const cfg = { dbPath: ':memory:', embeddingBatchSize: 2, embeddingRetryBaseMs: 1 };
+    const out = await fetchEmbeddings(cfg, ['x1', 'x2', 'x3']);
+    assert.deepEqual(out.map((e) => e.vector[0]), [1, 2, 3]);
+    assert.deepEqual(bodies, [['x1', 'x2'], ['x1', 'x2'], ['x1', 'x2'], ['x3']]);
+
+    statuses = [429];
+    await assert.rejects(
+      fetchEmbeddings({ ...cfg, embeddingMaxRetries: 0 }, ['x1']),
+      /Ollama embeddings failed: 429/
+    );
+
+    // An hour-long Retry-After is capped.
+    statuses = [429];
+    retryAfter = '3600';
+    const started = Date.now();
+    await fetchEmbeddings({ ...cfg, embeddingMaxRetryDelayMs: 10 }, ['x1']);
+    assert.ok(Date.now() - started < 1000);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('embedding providers: local provider works offline; custom providers can be registered', async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => { throw new Error('no network in this test'); };
+
+  try {
+    const local = { dbPath: ':memory:', provider: 'local', localEmbeddingDims: 64 };
+    const [a, a2, b] = await fetchEmbeddings(local, ['Café au lait', 'cafe au lait', 'quantum chromodynamics']);
+    assert.equal(a.model, 'local-ngram-64');
+    assert.equal(a.dims, 64);
+    assert.deepEqual([...a.vector], [...a2.vector]); // deterministic, accent/case-insensitive
+
+    await withTempDb(async (db) => {
+      const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+      insertItem(db, { ...base, id: 'milk', text: 'Alice drinks espresso with milk', created_at: 1 });
+      insertItem(db, { ...base, id: 'physics', text: 'Bob studies quantum physics', created_at: 2 });
+
+      const out = await semanticSearch(db, local, 'espresso', { topK: 2 });
+      assert.equal(out.length, 0); // nothing embedded yet for this model
+      await embedMissing(db, local);
+      const hits = await semanticSearch(db, local, 'espresso milk', { topK: 2 });
+      assert.equal(hits[0].item.id, 'milk');
+
+      const calls = [];
+      registerEmbeddingProvider({
+        name: 'test-double',
+        model: () => 'fixed',
+        async embed(_cfg, inputs) {
+          calls.push(inputs);
+          return inputs.map(() => new Float32Array([1, 0]));
+        },
+      });
+      const res = await hybridSearch(db, { dbPath: ':memory:', provider: 'test-double' }, 'espresso', { topK: 2 });
+      assert.equal(res[0].item.id, 'milk');
+      assert.equal(res[0].semanticScore, 1);
+      assert.deepEqual(calls, [['espresso'], ['Alice drinks espresso with milk', 'Bob studies quantum physics']]);
+
+      await assert.rejects(fetchEmbeddings({ dbPath: ':memory:', provider: 'nope' }, ['x']), /Unknown embedding provider: nope/);
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test('embedding storage: f16/int8 vectors decode transparently; compactEmbeddings reports bytes saved', async () => {
+  await withTempDb(async (db) => {
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+    insertItem(db, { ...base, id: 'milk', text: 'Alice drinks espresso with milk' });
+    insertItem(db, { ...base, id: 'physics', text: 'Bob studies quantum physics' });
+    const cfg = { dbPath: ':memory:', provider: 'local', localEmbeddingDims: 64 };
+
+    await embedMissing(db, cfg);
+    assert.deepEqual(getEmbeddingStats(db).formats, [{ format: 'f32', count: 2, sizeBytes: 2 * 64 * 4 }]);
+    const before = (await semanticSearch(db, cfg, 'espresso milk', { topK: 2 })).map((r) => r.semanticScore);
+
+    const f16 = compactEmbeddings(db);
+    assert.equal(f16.converted, 2);
+    assert.equal(f16.bytesSaved, 2 * 64 * 2);
+    assert.equal(compactEmbeddings(db).converted, 0); // already compacted
+
+    const int8 = compactEmbeddings(db, { format: 'int8' });
+    assert.equal(int8.bytesAfter, 2 * (4 + 64));
+
+    const after = await semanticSearch(db, cfg, 'espresso milk', { topK: 2 });
+    assert.equal(after[0].item.id, 'milk');
+    after.forEach((r, i) => assert.ok(Math.abs(r.semanticScore - before[i]) < 0.02));
+
+    // New vectors follow cfg.embeddingStorage
+    insertItem(db, { ...base, id: 'tea', text: 'Carol prefers green tea' });
+    await embedMissing(db, { ...cfg, embeddingStorage: 'f16' });
+    assert.equal(db.prepare("SELECT format FROM embeddings WHERE item_id = 'tea'").get().format, 'f16');
+  });
+});
+
+test('ANN index: IVF lists are built, maintained on embed/delete and used by semantic search', async () => {
+  // Test double: the text is the vector ("1,0,0").
+  registerEmbeddingProvider({
+    name: 'literal',
+    model: () => 'literal',
+    async embed(_cfg, inputs) { return inputs.map((t) => new Float32Array(t.match(/[\d.]+/g).map(Number))); },
+  });
+  const cfg = { dbPath: ':memory:', provider: 'literal' };
+
+  await withTempDb(async (db) => {
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+    // Three well-separated clusters around the axes.
+    const axes = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+    for (let i = 0; i < 30; i++) {
+      const v = axes[i % 3].map((x, d) => x + 0.01 * ((i + d) % 5));
+      insertItem(db, { ...base, id: `v${i}`, text: v.join(',') });
+    }
+    await embedMissing(db, cfg);
+
+    const info = buildAnnIndex(db, { model: 'literal', lists: 3 });
+    assert.equal(info.lists, 3);
+    assert.equal(info.assigned, 30);
+
+    const exact = await semanticSearch(db, cfg, '0,0.1,1', { topK: 5, ann: false });
+    const ann = await semanticSearch(db, cfg, '0,0.1,1', { topK: 5, nprobe: 1 });
+    assert.deepEqual(ann.map((r) => r.item.id), exact.map((r) => r.item.id));
+
+    // New vectors are assigned as they are stored; deleted items leave the index.
+    insertItem(db, { ...base, id: 'new', text: '0,0,2' });
+    await embedMissing(db, cfg);
+    assert.equal(listAnnIndexes(db)[0].assigned, 31);
+    assert.equal((await semanticSearch(db, cfg, '0,0,1', { topK: 1, nprobe: 1 }))[0].semanticScore, 1);
+    deleteItem(db, 'new');
+    assert.equal(listAnnIndexes(db)[0].assigned, 30);
+
+    // Hybrid search adds ANN neighbours to the lexical + recent candidates.
+    const hybrid = await hybridSearch(db, cfg, escapeFts5Query('0,0.1,1'), { topK: 50, candidates: 3, nprobe: 1 });
+    const hybridIds = hybrid.map((r) => r.item.id);
+    assert.ok(exact.slice(0, 3).every((r) => hybridIds.includes(r.item.id)));
+
+    const bench = benchmarkAnnSearch(db, { model: 'literal', queries: 5, topK: 3, nprobe: 1 });
+    assert.equal(bench.recallAtK, 1);
+
+    assert.equal(dropAnnIndex(db, 'literal'), true);
+    assert.deepEqual(listAnnIndexes(db), []);
+    assert.equal(db.prepare('SELECT COUNT(*) AS c FROM ann_assignments').get().c, 0);
+  });
+});
+
+test('hybridSearch: detects model/dims mismatches, re-embeds or skips, and warns; stats report coverage', async () => {
+  let dims = 3;
+  registerEmbeddingProvider({
+    name: 'sized',
+    model: (cfg) => cfg.embeddingModel ?? 'sized',
+    async embed(_cfg, inputs) { return inputs.map(() => new Float32Array(dims).fill(1)); },
+  });
+
+  await withTempDb(async (db) => {
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+    insertItem(db, { ...base, id: 'a', text: 'alpha one' });
+    insertItem(db, { ...base, id: 'b', text: 'alpha two' });
+    await embedMissing(db, { dbPath: ':memory:', provider: 'sized' });
+
+    // Same model, new output size: stale vectors are skipped instead of crashing cosine().
+    dims = 2;
+    let warnings = [];
+    const skipped = await hybridSearch(db, { dbPath: ':memory:', provider: 'sized' }, 'alpha', {
+      staleEmbeddings: 'skip',
+      onWarning: (w) => warnings.push(w),
+    });
+    assert.ok(skipped.every((r) => r.semanticScore === null));
+    assert.deepEqual(warnings.map((w) => [w.code, w.count]), [['embedding_dims_mismatch', 2]]);
+
+    warnings = [];
+    const reembedded = await hybridSearch(db, { dbPath: ':memory:', provider: 'sized' }, 'alpha', {
+      onWarning: (w) => warnings.push(w),
+    });
+    assert.ok(reembedded.every((r) => Math.abs(r.semanticScore - 1) < 1e-6));
+    assert.equal(warnings[0].code, 'embedding_dims_mismatch');
+    assert.equal(db.prepare("SELECT COUNT(*) AS c FROM embeddings WHERE dims = 2").get().c, 2);
+
+    // Another model: candidates only have vectors from "sized".
+    warnings = [];
+    const other = { dbPath: ':memory:', provider: 'sized', embeddingModel: 'other' };
+    await hybridSearch(db, other, 'alpha', { staleEmbeddings: 'skip', onWarning: (w) => warnings.push(w) });
+    assert.deepEqual(warnings.map((w) => [w.code, w.count, w.models]), [['embedding_model_mismatch', 2, ['sized']]]);
+
+    assert.deepEqual(getEmbeddingStats(db, 'other').active, { model: 'other', embedded: 0, missing: 2, dims: [] });
+    assert.deepEqual(getEmbeddingStats(db, 'sized').active, { model: 'sized', embedded: 2, missing: 0, dims: [2] });
+
+    // A vector left behind by a deleted item (written with foreign keys off) does not count as coverage.
+    db.pragma('foreign_keys = OFF');
+    db.prepare("INSERT INTO embeddings (item_id, model, dims, vector, updated_at) VALUES ('gone', 'sized', 2, ?, 0)")
+      .run(Buffer.from(new Float32Array([1, 0]).buffer));
+    db.pragma('foreign_keys = ON');
+    assert.equal(getEmbeddingStats(db, 'sized').active.missing, 0);
+    assert.equal(getEmbeddingStats(db, 'other').active.missing, 2);
+  });
+});
+
+test('chunkText: sentence-aware chunks within size, with overlap and exact offsets', () => {
+  const sentences = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} talks about topic ${i}.`);
+  const text = sentences.join(' ');
+  const chunks = chunkText(text, { chunkSize: 120, overlap: 50 });
+
+  assert.ok(chunks.length > 3);
+  for (const c of chunks) {
+    assert.ok(c.text.length <= 120);
+    assert.equal(text.slice(c.start, c.end), c.text);
+    assert.ok(c.text.endsWith('.')); // cut between sentences
+  }
+  // Consecutive chunks share the last sentence.
+  assert.ok(chunks[1].start < chunks[0].end);
+  assert.equal(chunks.at(-1).end, text.length);
+
+  // A sentence longer than a chunk is cut at whitespace.
+  const long = chunkText('word '.repeat(100).trim(), { chunkSize: 60, overlap: 0 });
+  assert.ok(long.every((c) => c.text.length <= 60 && !c.text.includes('wor ')));
+  assert.deepEqual(chunkText('   '), []);
+  // Non-finite sizes fall back to the defaults.
+  assert.deepEqual(chunkText(text, { chunkSize: NaN, overlap: NaN }), chunkText(text));
+});
+
+test('searchChunks: returns the best chunk per item with its parent and offset; chunks follow updates/deletes', async () => {
+  await withTempDb(async (db) => {
+    const base = { source: null, source_id: null, title: null, tags: null, meta: null };
+    const doc = [
+      'The quarterly report covers revenue.',
+      'Marketing spent more on ads this year.',
+      'The espresso machine in the kitchen broke on Tuesday.',
+      'Facilities will replace it next week.',
+    ].join(' ');
+    insertItem(db, { ...base, id: 'doc', text: doc });
+    insertItem(db, { ...base, id: 'short', text: 'Espresso tasting notes' });
+    chunkItem(db, 'doc', { chunkSize: 60, overlap: 0 });
+    chunkItem(db, 'short');
+
+    const lex = await searchChunks(db, null, 'espresso', { topK: 5 });
+    assert.deepEqual(lex.map((r) => r.item.id).sort(), ['doc', 'short']);
+    const hit = lex.find((r) => r.item.id === 'doc');
+    assert.match(hit.chunk.text, /espresso machine/);
+    assert.equal(hit.snippetOffset, doc.indexOf('The espresso'));
+    assert.equal(hit.item.text, doc);
+
+    const local = { dbPath: ':memory:', provider: 'local' };
+    assert.equal((await embedMissing(db, local, { chunks: true })).embedded, 5);
+    const hybrid = await searchChunks(db, local, 'broken coffee machine', { topK: 1 });
+    assert.equal(hybrid[0].item.id, 'doc');
+    assert.ok(hybrid[0].semanticScore !== null);
+    await assert.rejects(
+      searchChunks(db, null, 'title : "espresso"'),
+      /column filters \(title:\/tags:\) are not supported for chunk search/
+    );
+
+    updateItem(db, 'doc', { text: 'Totally new text about tea.' });
+    assert.deepEqual(getItemChunks(db, 'doc').map((c) => c.text), ['Totally new text about tea.']);
+    deleteItem(db, 'doc');
+    assert.equal(db.prepare("SELECT COUNT(*) AS c FROM item_chunks WHERE item_id = 'doc'").get().c, 0);
+    assert.equal(db.prepare('SELECT COUNT(*) AS c FROM chunk_embeddings').get().c, 1); // only 'short' remains
+  });
+});
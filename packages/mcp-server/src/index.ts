@@ -7,13 +7,28 @@ import {
   initSchema,
   runMigrations,
   addItem,
+  addItemWithEmbedding,
+  getFactsBySourceItem,
+  listEmbeddingProviders,
+  getFactProvenance,
+  updateItem,
+  deleteItem,
   searchItems,
+  buildFtsQuery,
+  validateFtsQuery,
   hybridSearch,
+  semanticSearch,
+  searchChunks,
+  type FilterOpts,
+  type SearchWarning,
   getMemoriesByEntity,
   getMemoriesBySession,
   listEntities,
   listSessions,
-  insertFact,
+  stm_insert,
+  stm_recall,
+  stm_maintain,
+  upsertFact,
   getFactsBySubject,
   searchFacts,
   getAllFacts,
@@ -32,14 +47,28 @@ import { randomUUID } from 'crypto';
 // Default DB path - can be overridden via environment variable
 const DB_PATH = process.env.OPENCLAW_MEMORY_DB || 'memory.sqlite';
 
+// Embedding provider (validated up front: a typo would otherwise only show up on the first embed)
+const EMBEDDING_PROVIDER = process.env.OPENCLAW_EMBEDDING_PROVIDER || undefined;
+if (EMBEDDING_PROVIDER && !listEmbeddingProviders().includes(EMBEDDING_PROVIDER)) {
+  console.error(
+    `Unknown OPENCLAW_EMBEDDING_PROVIDER: ${EMBEDDING_PROVIDER} (expected one of: ${listEmbeddingProviders().join(', ')})`
+  );
+  process.exit(2);
+}
+
 // Initialize database
 const db = openDb(DB_PATH);
 initSchema(db);
 runMigrations(db);
 
-// Default config for hybrid search (no embeddings - lexical only fallback)
+// Default config for hybrid/semantic search. Without a reachable embeddings
+// provider, searches fall back to lexical-only results.
 const defaultConfig: MemConfig = {
   dbPath: DB_PATH,
+  provider: EMBEDDING_PROVIDER,
+  ollamaBaseUrl: process.env.OPENCLAW_OLLAMA_BASE_URL || undefined,
+  embeddingModel: process.env.OPENCLAW_EMBEDDING_MODEL || undefined,
+  embeddingStorage: (process.env.OPENCLAW_EMBEDDING_STORAGE as MemConfig['embeddingStorage']) || undefined,
 };
 
 // Create MCP server
@@ -65,10 +94,14 @@ server.tool(
     tags: z.string().optional().describe('Comma-separated tags'),
     entity_id: z.string().optional().describe('Who said/wrote this (user, agent, system)'),
     session_id: z.string().optional().describe('Session/conversation ID'),
+    embed: z.boolean().optional().default(false).describe('Compute and store the embedding now (lexical-only if unavailable)'),
+    extract_facts: z.boolean().optional().default(false)
+      .describe('Also extract facts from the text and store them with this memory as their source'),
   },
   async (params) => {
     const id = randomUUID();
-    addItem(db, {
+    const opts = { extractFacts: params.extract_facts };
+    const input = {
       id,
       text: params.text,
       title: params.title ?? null,
@@ -79,41 +112,194 @@ server.tool(
       entity_id: params.entity_id ?? null,
       process_id: 'mcp-server',
       session_id: params.session_id ?? null,
-    });
+    };
+    if (params.embed) {
+      const { embedding } = await addItemWithEmbedding(db, defaultConfig, input, opts);
+      const facts = params.extract_facts ? getFactsBySourceItem(db, id) : undefined;
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ok: true, id, embedded: embedding !== null, facts }) }],
+      };
+    }
+    addItem(db, input, opts);
+    const facts = params.extract_facts ? getFactsBySourceItem(db, id) : undefined;
     return {
-      content: [{ type: 'text', text: JSON.stringify({ ok: true, id }) }],
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, id, facts }) }],
     };
   }
 );
 
 server.tool(
   'memory_recall',
-  'Search and recall memories from the SQLite database using FTS5 full-text search',
+  'Search and recall memories from the SQLite database using FTS5 full-text search (optionally hybrid or semantic)',
   {
     query: z.string().describe('The search query'),
     limit: z.number().optional().default(10).describe('Maximum number of results'),
+    mode: z.enum(['lexical', 'hybrid', 'semantic']).optional().default('lexical')
+      .describe('lexical (FTS5), hybrid (FTS5 + embeddings rerank) or semantic (vector search over all embeddings)'),
+    query_mode: z.enum(['simple', 'phrase', 'boolean', 'fts5']).optional().default('simple')
+      .describe('Query syntax: simple (words, else one phrase), phrase, boolean (AND/OR/NOT, (groups), "phrases", prefix*, title:/tags:) or fts5 (raw)'),
     entity_id: z.string().optional().describe('Filter by entity'),
     session_id: z.string().optional().describe('Filter by session'),
+    process_id: z.string().optional().describe('Filter by process/agent'),
+    source: z.string().optional().describe('Filter by source'),
+    tags: z.string().optional().describe('Filter by comma-separated tags (all must match)'),
+    since: z.string().optional().describe('Only memories created at/after this ISO date/time'),
+    until: z.string().optional().describe('Only memories created before this ISO date/time'),
+    recency_half_life_days: z.number().optional().describe('Favor fresh memories: recency score halves every N days'),
+    chunks: z.boolean().optional().describe('Search chunks of long memories; each result carries the best chunk and its offset'),
+    snippet: z.boolean().optional()
+      .describe('Return a short FTS5 snippet (matches marked with **) instead of the full text for keyword hits'),
+    snippet_tokens: z.number().optional().describe('Snippet window size in tokens (1..64, default 16)'),
   },
   async (params) => {
     const limit = params.limit ?? 10;
-    // Use synchronous lexical search for simplicity
-    const searchResult = searchItems(db, params.query, limit * 2);
-    let items = searchResult.results.map(r => r.item);
-    
-    // Apply filters if specified
-    if (params.entity_id) {
-      items = items.filter((item: any) => item.entity_id === params.entity_id);
+    const highlight = params.snippet ? { snippet: true, tokens: params.snippet_tokens } : undefined;
+    const since = params.since !== undefined ? Date.parse(params.since) : undefined;
+    const until = params.until !== undefined ? Date.parse(params.until) : undefined;
+    if (Number.isNaN(since) || Number.isNaN(until)) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ok: false, error: 'Invalid since/until date' }) }],
+        isError: true,
+      };
     }
-    if (params.session_id) {
-      items = items.filter((item: any) => item.session_id === params.session_id);
+
+    const filter: FilterOpts = {
+      entity_id: params.entity_id,
+      session_id: params.session_id,
+      process_id: params.process_id,
+      source: params.source,
+      tags: params.tags,
+      since,
+      until,
+    };
+    let ftsQuery: string;
+    try {
+      ftsQuery = buildFtsQuery(params.query, params.query_mode);
+      if (params.query_mode === 'fts5') validateFtsQuery(db, ftsQuery);
+    } catch (e: any) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ok: false, error: String(e?.message ?? e) }) }],
+        isError: true,
+      };
+    }
+    const recency = params.recency_half_life_days
+      ? { recencyHalfLifeMs: params.recency_half_life_days * 86_400_000 }
+      : undefined;
+
+    let results;
+    const warnings: SearchWarning[] = [];
+    if (params.chunks) {
+      let hits;
+      try {
+        hits = await searchChunks(
+          db,
+          params.mode === 'lexical' ? null : defaultConfig,
+          ftsQuery,
+          { topK: limit, filter, semanticQuery: params.query, onWarning: (w) => warnings.push(w) }
+        );
+      } catch (e: any) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ ok: false, error: String(e?.message ?? e) }) }],
+          isError: true,
+        };
+      }
+      const items = hits.map(h => ({ ...h.item, chunk: h.chunk.text, snippetOffset: h.snippetOffset }));
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ ok: true, mode: params.mode, count: items.length, items, ...(warnings.length ? { warnings } : {}) }),
+        }],
+      };
+    }
+    if (params.mode === 'semantic') {
+      results = await semanticSearch(db, defaultConfig, params.query, {
+        topK: limit,
+        filter,
+        onWarning: (w) => warnings.push(w),
+      });
+    } else if (params.mode === 'hybrid') {
+      results = await hybridSearch(db, defaultConfig, ftsQuery, {
+        topK: limit,
+        filter,
+        ...recency,
+        semanticQuery: params.query,
+        onWarning: (w) => warnings.push(w),
+        highlight,
+      });
+    } else {
+      // Filters are applied in SQL.
+      results = searchItems(db, params.query, limit, filter, recency, { highlight, queryMode: params.query_mode }).results;
+    }
+    // Keyword hits with a snippet drop the full text (compact context); the rest keep it.
+    const items = results.map(r => {
+      const snippet = 'snippet' in r ? r.snippet : undefined;
+      if (snippet === undefined) return r.item;
+      const { text: _text, ...rest } = r.item;
+      return { ...rest, snippet };
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ok: true,
+          // A semantic recall whose query embedding failed returns the lexical fallback.
+          mode: params.mode === 'semantic' && warnings.some((w) => w.code === 'embedding_unavailable') ? 'lexical' : params.mode,
+          count: items.length,
+          items,
+          ...(warnings.length ? { warnings } : {}),
+        }),
+      }],
+    };
+  }
+);
+
+server.tool(
+  'memory_update',
+  'Update an existing memory item (only the given fields are changed)',
+  {
+    id: z.string().describe('The memory item ID to update'),
+    text: z.string().optional().describe('New text content'),
+    title: z.string().nullable().optional().describe('New title (null clears it)'),
+    tags: z.string().nullable().optional().describe('New comma-separated tags (null clears them)'),
+    entity_id: z.string().nullable().optional().describe('New entity ID (null clears it)'),
+    process_id: z.string().nullable().optional().describe('New process ID (null clears it)'),
+    session_id: z.string().nullable().optional().describe('New session ID (null clears it)'),
+    meta: z.record(z.unknown()).nullable().optional().describe('New metadata object, replaces the current one (null clears it)'),
+  },
+  async (params) => {
+    const item = updateItem(db, params.id, {
+      text: params.text,
+      title: params.title,
+      tags: params.tags,
+      entity_id: params.entity_id,
+      process_id: params.process_id,
+      session_id: params.session_id,
+      meta: params.meta,
+    });
+    if (!item) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ok: false, error: 'Item not found', id: params.id }) }],
+        isError: true,
+      };
     }
-    
-    // Limit results after filtering
-    items = items.slice(0, limit);
-    
     return {
-      content: [{ type: 'text', text: JSON.stringify({ ok: true, count: items.length, items }) }],
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, item }) }],
+    };
+  }
+);
+
+server.tool(
+  'memory_delete',
+  'Delete a memory item (and its embedding); optionally delete facts extracted from it',
+  {
+    id: z.string().describe('The memory item ID to delete'),
+    cascade_facts: z.boolean().optional().default(false).describe('Also delete facts whose source is this item'),
+  },
+  async (params) => {
+    const result = deleteItem(db, params.id, { cascadeFacts: params.cascade_facts ?? false });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, id: params.id, ...result }) }],
     };
   }
 );
@@ -172,33 +358,128 @@ server.tool(
   }
 );
 
+// ============================================================================
+// Short-Term Memory Tools
+// ============================================================================
+
+server.tool(
+  'stm_store',
+  'Store a short-term (working) memory item that expires after a TTL',
+  {
+    text: z.string().describe('The text content to store'),
+    title: z.string().optional().describe('Optional title for the memory'),
+    tags: z.string().optional().describe('Comma-separated tags'),
+    ttl_ms: z.number().optional().describe('Time to live in milliseconds (default: no expiry)'),
+    importance: z.number().optional().default(0.5).describe('Importance 0-1 (used for overflow eviction)'),
+    entity_id: z.string().optional().describe('Who said/wrote this (user, agent, system)'),
+    session_id: z.string().optional().describe('Session/conversation ID'),
+  },
+  async (params) => {
+    const id = randomUUID();
+    const item = stm_insert(db, {
+      id,
+      text: params.text,
+      title: params.title ?? null,
+      tags: params.tags ?? null,
+      source: 'mcp',
+      source_id: null,
+      meta: null,
+      entity_id: params.entity_id ?? null,
+      process_id: 'mcp-server',
+      session_id: params.session_id ?? null,
+      ttlMs: params.ttl_ms,
+      importance: Math.max(0, Math.min(1, params.importance ?? 0.5)),
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, id, expires_at: item.expires_at }) }],
+    };
+  }
+);
+
+server.tool(
+  'stm_recall',
+  'Search short-term memory using FTS5, optionally merged with long-term memory',
+  {
+    query: z.string().describe('The search query'),
+    limit: z.number().optional().default(10).describe('Maximum number of results'),
+    include_ltm: z.boolean().optional().default(false).describe('Also search long-term memory'),
+  },
+  async (params) => {
+    const results = stm_recall(db, params.query, {
+      limit: params.limit ?? 10,
+      includeLtm: params.include_ltm ?? false,
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, count: results.length, results }) }],
+    };
+  }
+);
+
+server.tool(
+  'stm_maintain',
+  'Delete expired short-term memories and evict the least important ones above max_items',
+  {
+    max_items: z.number().optional().describe('Maximum number of STM items to keep'),
+  },
+  async (params) => {
+    const result = stm_maintain(db, { maxItems: params.max_items });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, ...result }) }],
+    };
+  }
+);
+
 // ============================================================================
 // Fact Tools
 // ============================================================================
 
+const AS_OF_DESCRIPTION = 'Only facts valid at this ISO date/time ("now" = current facts; default: all, including superseded)';
+
+/**
+ * Parse an `as_of` / `valid_from` value: ISO date/time or "now". NaN when invalid.
+ */
+function parseFactTime(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  return value === 'now' ? Date.now() : Date.parse(value);
+}
+
+function invalidDate(name: string) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify({ ok: false, error: `Invalid ${name} date` }) }],
+    isError: true,
+  };
+}
+
 server.tool(
   'fact_add',
-  'Add a structured fact to the knowledge base',
+  'Add a structured fact to the knowledge base (an identical existing fact is reinforced, not duplicated)',
   {
     subject: z.string().describe('The subject of the fact (e.g., "Loic")'),
     predicate: z.string().describe('The relationship (e.g., "works_at", "prefers")'),
     object: z.string().describe('The object/value (e.g., "Fasst")'),
     confidence: z.number().optional().default(0.7).describe('Confidence level 0-1'),
     entity_id: z.string().optional().describe('Who stated this fact'),
+    source_item_id: z.string().optional().describe('Memory item supporting this fact'),
+    valid_from: z.string().optional()
+      .describe('ISO date/time the fact became true (default now); for single-valued predicates it supersedes the previous value'),
   },
   async (params) => {
+    const validFrom = parseFactTime(params.valid_from);
+    if (Number.isNaN(validFrom)) return invalidDate('valid_from');
     const id = randomUUID();
-    const fact = insertFact(db, {
+    const out = upsertFact(db, {
       id,
       subject: params.subject,
       predicate: params.predicate,
       object: params.object,
       confidence: params.confidence ?? 0.7,
-      source_item_id: null,
+      source_item_id: params.source_item_id ?? null,
       entity_id: params.entity_id ?? null,
+      valid_from: validFrom,
+      extractor: 'manual',
     });
     return {
-      content: [{ type: 'text', text: JSON.stringify({ ok: true, fact }) }],
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, ...out }) }],
     };
   }
 );
@@ -209,9 +490,12 @@ server.tool(
   {
     query: z.string().describe('Search query'),
     limit: z.number().optional().default(50).describe('Maximum results'),
+    as_of: z.string().optional().describe(AS_OF_DESCRIPTION),
   },
   async (params) => {
-    const facts = searchFacts(db, params.query, params.limit ?? 50);
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const facts = searchFacts(db, params.query, params.limit ?? 50, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, count: facts.length, facts }) }],
     };
@@ -224,9 +508,12 @@ server.tool(
   {
     subject: z.string().describe('The subject to search for'),
     limit: z.number().optional().default(50).describe('Maximum results'),
+    as_of: z.string().optional().describe(AS_OF_DESCRIPTION),
   },
   async (params) => {
-    const facts = getFactsBySubject(db, params.subject, params.limit ?? 50);
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const facts = getFactsBySubject(db, params.subject, params.limit ?? 50, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, subject: params.subject, count: facts.length, facts }) }],
     };
@@ -239,9 +526,12 @@ server.tool(
   {
     entity_id: z.string().optional().describe('Filter by entity'),
     limit: z.number().optional().default(50).describe('Maximum results'),
+    as_of: z.string().optional().describe(AS_OF_DESCRIPTION),
   },
   async (params) => {
-    const facts = getAllFacts(db, params.entity_id, params.limit ?? 50);
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const facts = getAllFacts(db, params.entity_id, params.limit ?? 50, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, count: facts.length, facts }) }],
     };
@@ -262,6 +552,26 @@ server.tool(
   }
 );
 
+server.tool(
+  'fact_provenance',
+  'Explain where a fact comes from: the memory items supporting it and how it was extracted',
+  {
+    id: z.string().describe('The fact ID'),
+  },
+  async (params) => {
+    const provenance = getFactProvenance(db, params.id);
+    if (!provenance) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ok: false, error: 'Fact not found', id: params.id }) }],
+        isError: true,
+      };
+    }
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ ok: true, ...provenance }) }],
+    };
+  }
+);
+
 server.tool(
   'fact_list_subjects',
   'List all distinct subjects in the facts table',
@@ -290,12 +600,18 @@ server.tool(
 // Knowledge Graph Tools
 // ============================================================================
 
+const GRAPH_AS_OF_DESCRIPTION = 'Use the facts valid at this ISO date/time (default: now; superseded facts are left out)';
+
 server.tool(
   'graph_stats',
   'Get statistics about the knowledge graph',
-  {},
-  async () => {
-    const stats = getGraphStats(db);
+  {
+    as_of: z.string().optional().describe(GRAPH_AS_OF_DESCRIPTION),
+  },
+  async (params) => {
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const stats = getGraphStats(db, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, stats }, null, 2) }],
     };
@@ -307,9 +623,12 @@ server.tool(
   'Get all facts connected to an entity (as subject or object)',
   {
     entity: z.string().describe('The entity to query'),
+    as_of: z.string().optional().describe(GRAPH_AS_OF_DESCRIPTION),
   },
   async (params) => {
-    const edges = getEntityGraph(db, params.entity);
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const edges = getEntityGraph(db, params.entity, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, entity: params.entity, count: edges.length, edges }) }],
     };
@@ -321,9 +640,12 @@ server.tool(
   'Get all entities directly connected to an entity',
   {
     entity: z.string().describe('The entity to query'),
+    as_of: z.string().optional().describe(GRAPH_AS_OF_DESCRIPTION),
   },
   async (params) => {
-    const related = getRelatedEntities(db, params.entity);
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const related = getRelatedEntities(db, params.entity, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, entity: params.entity, count: related.length, related }) }],
     };
@@ -338,9 +660,12 @@ server.tool(
     to: z.string().describe('Target entity'),
     max_depth: z.number().optional().default(4).describe('Maximum path depth'),
     max_paths: z.number().optional().default(5).describe('Maximum number of paths'),
+    as_of: z.string().optional().describe(GRAPH_AS_OF_DESCRIPTION),
   },
   async (params) => {
-    const paths = findPaths(db, params.from, params.to, params.max_depth ?? 4, params.max_paths ?? 5);
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
+    const paths = findPaths(db, params.from, params.to, params.max_depth ?? 4, params.max_paths ?? 5, { asOf });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, from: params.from, to: params.to, count: paths.length, paths }) }],
     };
@@ -354,12 +679,16 @@ server.tool(
     entity: z.string().optional().describe('Export only subgraph around this entity'),
     min_confidence: z.number().optional().default(0).describe('Minimum confidence threshold'),
     limit: z.number().optional().default(1000).describe('Maximum edges to export'),
+    as_of: z.string().optional().describe(GRAPH_AS_OF_DESCRIPTION),
   },
   async (params) => {
+    const asOf = parseFactTime(params.as_of);
+    if (Number.isNaN(asOf)) return invalidDate('as_of');
     const graph = exportGraphJson(db, {
       entity: params.entity,
       minConfidence: params.min_confidence,
       limit: params.limit,
+      asOf,
     });
     return {
       content: [{ type: 'text', text: JSON.stringify({ ok: true, nodes: graph.nodes.length, edges: graph.edges.length, graph }) }],
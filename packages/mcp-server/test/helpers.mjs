@@ -0,0 +1,34 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const serverPath = path.resolve(import.meta.dirname, '..', 'dist', 'index.js');
+
+/**
+ * Start the built server on a throwaway database: `call(tool, args)` returns the parsed JSON payload.
+ */
+export async function withServer(fn) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-mem-mcp-'));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [serverPath],
+    env: { ...process.env, OPENCLAW_MEMORY_DB: path.join(dir, 'memory.sqlite') },
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'stm-test', version: '0.0.0' });
+  await client.connect(transport);
+  const call = async (name, args) => {
+    const res = await client.callTool({ name, arguments: args });
+    const text = res.content[0].text;
+    // Schema violations come back as a plain "MCP error ..." text.
+    return res.isError && !text.startsWith('{') ? { isError: true, error: text } : { isError: Boolean(res.isError), out: JSON.parse(text) };
+  };
+  try {
+    await fn(call);
+  } finally {
+    await client.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
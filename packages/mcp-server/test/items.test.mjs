@@ -0,0 +1,20 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withServer } from './helpers.mjs';
+
+test('memory_update: changes meta and process_id along with the other fields', async () => {
+  await withServer(async (call) => {
+    const stored = await call('memory_store', { text: 'deploy staging tonight' });
+    const id = stored.out.id;
+
+    const updated = await call('memory_update', { id, meta: { channel: 'ops' }, process_id: 'akasha' });
+    assert.equal(updated.out.ok, true);
+    assert.deepEqual(JSON.parse(updated.out.item.meta), { channel: 'ops' });
+    assert.equal(updated.out.item.process_id, 'akasha');
+    assert.equal(updated.out.item.text, 'deploy staging tonight');
+
+    const cleared = await call('memory_update', { id, meta: null, process_id: null });
+    assert.equal(cleared.out.item.meta, null);
+    assert.equal(cleared.out.item.process_id, null);
+  });
+});
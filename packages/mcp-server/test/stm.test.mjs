@@ -0,0 +1,29 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { withServer } from './helpers.mjs';
+
+test('stm_store / stm_recall / stm_maintain: store, search and evict short-term memories', async () => {
+  await withServer(async (call) => {
+    const kept = await call('stm_store', { text: 'deploy staging tonight', importance: 0.9 });
+    assert.equal(kept.out.ok, true);
+    await call('stm_store', { text: 'deploy prod friday', importance: 0.2, ttl_ms: 3_600_000 });
+
+    const recall = await call('stm_recall', { query: 'deploy' });
+    assert.equal(recall.out.count, 2);
+
+    assert.equal((await call('stm_maintain', { max_items: 1 })).out.ok, true);
+    const after = await call('stm_recall', { query: 'deploy' });
+    assert.deepEqual(after.out.results.map((r) => r.item.id), [kept.out.id]);
+  });
+});
+
+test('stm_store / stm_maintain: non-numeric importance / max_items are rejected', async () => {
+  await withServer(async (call) => {
+    const store = await call('stm_store', { text: 'x', importance: 'high' });
+    assert.equal(store.isError, true);
+    assert.match(store.error, /importance/);
+    const maintain = await call('stm_maintain', { max_items: 'lots' });
+    assert.equal(maintain.isError, true);
+    assert.match(maintain.error, /max_items/);
+  });
+});